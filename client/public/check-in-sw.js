@@ -0,0 +1,46 @@
+// Lets the check-in page reopen without a connection. Pages and the scripts
+// and styles they load are fetched from the network first and served from
+// the cache when offline; API calls are never cached, since the page keeps
+// its own copy of the roster and queues check-ins itself.
+const CACHE_NAME = "check-in-v1";
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+function isCacheable(request) {
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return false;
+  }
+  if (request.mode === "navigate") {
+    return /^\/admin\/events\/\d+\/check-in$/.test(url.pathname);
+  }
+  return ["script", "style", "font", "manifest"].includes(request.destination);
+}
+
+self.addEventListener("fetch", (event) => {
+  if (!isCacheable(event.request)) {
+    return;
+  }
+
+  event.respondWith(
+    fetch(event.request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy));
+        }
+        return response;
+      })
+      .catch(() => caches.match(event.request).then((cached) => cached || Response.error()))
+  );
+});
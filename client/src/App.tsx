@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
@@ -6,10 +6,21 @@ import { CartProvider } from "@/hooks/use-cart";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Events from "@/pages/events";
+import EventDetailPage from "@/pages/event-detail";
 import Register from "@/pages/register";
 import Login from "@/pages/login";
+import VerifyEmail from "@/pages/verify-email";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import Account from "@/pages/account";
+import ConfirmEmail from "@/pages/confirm-email";
 import AdminDashboard from "@/pages/admin";
+import AdminEvents from "@/pages/admin/events";
+import AdminCheckIn from "@/pages/admin/check-in";
 import AdminProducts from "@/pages/admin/products";
+import AdminUsers from "@/pages/admin/users";
+import AdminPrivacy from "@/pages/admin/privacy";
+import AdminWaivers from "@/pages/admin/waivers";
 import Shop from "@/pages/shop";
 import Cart from "@/pages/cart";
 import Checkout from "@/pages/checkout";
@@ -20,10 +31,24 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/events" component={Events} />
+      <Route path="/events/:id" component={EventDetailPage} />
       <Route path="/register" component={Register} />
       <Route path="/login" component={Login} />
+      <Route path="/verify-email" component={VerifyEmail} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/account" component={Account} />
+      <Route path="/account/confirm-email" component={ConfirmEmail} />
+      <Route path="/profile">
+        <Redirect to="/account" />
+      </Route>
       <Route path="/admin" component={AdminDashboard} />
+      <Route path="/admin/events" component={AdminEvents} />
+      <Route path="/admin/events/:id/check-in" component={AdminCheckIn} />
+      <Route path="/admin/waivers" component={AdminWaivers} />
       <Route path="/admin/products" component={AdminProducts} />
+      <Route path="/admin/users" component={AdminUsers} />
+      <Route path="/admin/privacy" component={AdminPrivacy} />
       <Route path="/shop" component={Shop} />
       <Route path="/cart" component={Cart} />
       <Route path="/checkout" component={Checkout} />
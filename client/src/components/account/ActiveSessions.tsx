@@ -0,0 +1,148 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Laptop, Loader2, Smartphone } from "lucide-react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
+
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Browser";
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "Unknown OS";
+
+  return `${browser} on ${os}`;
+}
+
+export function ActiveSessions() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const onSignedOut = () => {
+    queryClient.setQueryData(["/api/auth/me"], null);
+    setLocation("/login");
+  };
+
+  const revokeSession = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/auth/sessions/${id}`);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data.current) {
+        onSignedOut();
+        return;
+      }
+      toast({
+        title: "Device signed out",
+        description: "That session can no longer access your account.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not sign out device",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeAll = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/auth/sessions");
+    },
+    onSuccess: onSignedOut,
+    onError: (error: Error) => {
+      toast({
+        title: "Could not sign out",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active Sessions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin" />
+        ) : (
+          <div className="space-y-2">
+            {sessions?.map((session) => {
+              const Icon = /iPhone|iPad|Android/.test(session.userAgent || "") ? Smartphone : Laptop;
+              return (
+                <div key={session.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <Icon className="h-5 w-5" />
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        {describeUserAgent(session.userAgent)}
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {session.ip || "Unknown IP"}
+                        {session.lastSeenAt &&
+                          ` · Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeSession.mutate(session.id)}
+                    disabled={revokeSession.isPending}
+                  >
+                    Sign out
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <Button
+          variant="destructive"
+          className="w-full"
+          onClick={() => revokeAll.mutate()}
+          disabled={revokeAll.isPending}
+        >
+          {revokeAll.isPending ? "Signing out..." : "Sign out everywhere"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarPlus, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type Feed = { url: string };
+
+export function CalendarFeed() {
+  const { toast } = useToast();
+
+  const { data: feed } = useQuery<Feed>({
+    queryKey: ["/api/account/calendar-feed"],
+  });
+
+  const reset = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/account/calendar-feed/reset");
+      return res.json();
+    },
+    onSuccess: (data: Feed) => {
+      queryClient.setQueryData(["/api/account/calendar-feed"], data);
+      toast({
+        title: "Calendar link reset",
+        description: "Calendars using the old link will stop updating. Subscribe again with the new one.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copy = async () => {
+    if (!feed) {
+      return;
+    }
+    await navigator.clipboard.writeText(feed.url);
+    toast({ title: "Link copied" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>My Calendar</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Subscribe to this private link in Google Calendar, Apple Calendar or Outlook and the hikes you're
+          registered for will show up automatically. Anyone with the link can see your hikes, so keep it to
+          yourself.
+        </p>
+        <div className="flex gap-2">
+          <Input value={feed?.url ?? ""} readOnly onFocus={(e) => e.target.select()} />
+          <Button variant="outline" size="icon" onClick={copy} disabled={!feed} aria-label="Copy link">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button asChild disabled={!feed}>
+            <a href={feed?.url.replace(/^https?:/, "webcal:")}>
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Subscribe
+            </a>
+          </Button>
+          <Button variant="outline" onClick={() => reset.mutate()} disabled={reset.isPending}>
+            {reset.isPending ? "Resetting..." : "Reset Link"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
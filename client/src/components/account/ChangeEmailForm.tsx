@@ -0,0 +1,128 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { changeEmailSchema, type User } from "@shared/schema";
+import type { z } from "zod";
+
+type ChangeEmail = z.infer<typeof changeEmailSchema>;
+
+export function ChangeEmailForm({ user }: { user: User }) {
+  const { toast } = useToast();
+
+  const form = useForm<ChangeEmail>({
+    resolver: zodResolver(changeEmailSchema),
+    defaultValues: {
+      email: "",
+      password: "",
+    },
+  });
+
+  const onUpdated = (updatedUser: User) => {
+    queryClient.setQueryData(["/api/auth/me"], (current: object | null) => ({ ...current, ...updatedUser }));
+  };
+
+  const changeEmail = useMutation({
+    mutationFn: async (data: ChangeEmail) => {
+      const res = await apiRequest("POST", "/api/account/email", data);
+      return res.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      onUpdated(updatedUser);
+      form.reset();
+      toast({
+        title: "Check your inbox",
+        description: `We sent a confirmation link to ${updatedUser.pendingEmail}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not change email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelChange = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/account/email");
+      return res.json();
+    },
+    onSuccess: onUpdated,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Address</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <span>{user.email}</span>
+          {user.isVerified ? (
+            <Badge variant="secondary">Verified</Badge>
+          ) : (
+            <Badge variant="outline">Unverified</Badge>
+          )}
+        </div>
+
+        {user.pendingEmail && (
+          <div className="flex items-center justify-between p-3 border rounded-lg text-sm">
+            <span>
+              Waiting for you to confirm <strong>{user.pendingEmail}</strong>
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => cancelChange.mutate()}
+              disabled={cancelChange.isPending}
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => changeEmail.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Current Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={changeEmail.isPending}>
+              {changeEmail.isPending ? "Sending..." : "Change Email"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { startRegistration, browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import { format } from "date-fns";
+import { KeyRound, Loader2, Trash2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { UserCredential } from "@shared/schema";
+
+type Passkey = Omit<UserCredential, "publicKey">;
+
+export function ManagePasskeys() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const isSupported = browserSupportsWebAuthn();
+
+  const { data: passkeys, isLoading } = useQuery<Passkey[]>({
+    queryKey: ["/api/auth/webauthn/credentials"],
+  });
+
+  const addPasskey = useMutation({
+    mutationFn: async () => {
+      const optionsRes = await apiRequest("POST", "/api/auth/webauthn/register/options");
+      const optionsJSON = await optionsRes.json();
+      const response = await startRegistration({ optionsJSON });
+      await apiRequest("POST", "/api/auth/webauthn/register/verify", { response, name });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Passkey added",
+        description: "You can now sign in with this passkey.",
+      });
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/webauthn/credentials"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not add passkey",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removePasskey = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/auth/webauthn/credentials/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/webauthn/credentials"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not remove passkey",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Manage Passkeys</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Passkeys let you sign in with your fingerprint, face or device PIN instead of a password.
+        </p>
+
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin" />
+        ) : passkeys?.length ? (
+          <div className="space-y-2">
+            {passkeys.map((passkey) => (
+              <div key={passkey.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  <KeyRound className="h-5 w-5" />
+                  <div>
+                    <p className="font-medium">{passkey.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Added {format(new Date(passkey.createdAt), "MMM d, yyyy")}
+                      {passkey.lastUsedAt && ` · Last used ${format(new Date(passkey.lastUsedAt), "MMM d, yyyy")}`}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removePasskey.mutate(passkey.id)}
+                  disabled={removePasskey.isPending}
+                >
+                  <Trash2Icon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm">You have not added any passkeys yet.</p>
+        )}
+
+        {isSupported ? (
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name this passkey (e.g. My iPhone)"
+            />
+            <Button onClick={() => addPasskey.mutate()} disabled={addPasskey.isPending}>
+              {addPasskey.isPending ? "Adding..." : "Add Passkey"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This browser does not support passkeys.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
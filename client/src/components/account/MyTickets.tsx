@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Link } from "wouter";
+import { Calendar, CheckCircle, MapPin } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface Ticket {
+  registrationId: number;
+  event: {
+    id: number;
+    title: string;
+    date: string;
+    location: string;
+  };
+  checkedInAt: string | null;
+  qrCodeDataUrl: string;
+}
+
+export function MyTickets() {
+  const { data: tickets, isLoading } = useQuery<Ticket[]>({
+    queryKey: ["/api/account/tickets"],
+  });
+
+  if (isLoading) {
+    return <div className="h-48 bg-muted rounded-lg animate-pulse" />;
+  }
+
+  if (!tickets?.length) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          You don't have tickets for any upcoming events.{" "}
+          <Link href="/events" className="text-primary hover:underline">
+            Find an event
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      {tickets.map((ticket) => (
+        <Card key={ticket.registrationId}>
+          <CardHeader>
+            <CardTitle>
+              <Link href={`/events/${ticket.event.id}`} className="hover:underline">
+                {ticket.event.title}
+              </Link>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row gap-6 items-center">
+            <img
+              src={ticket.qrCodeDataUrl}
+              alt={`Ticket for ${ticket.event.title}`}
+              className="w-48 h-48 rounded-lg border"
+            />
+            <div className="space-y-2 text-sm">
+              <div className="flex items-center text-muted-foreground">
+                <Calendar className="mr-2 h-4 w-4" />
+                {format(new Date(ticket.event.date), "EEEE, MMMM d, yyyy 'at' h:mm a")}
+              </div>
+              <div className="flex items-center text-muted-foreground">
+                <MapPin className="mr-2 h-4 w-4" />
+                {ticket.event.location}
+              </div>
+              {ticket.checkedInAt ? (
+                <div className="flex items-center text-green-600">
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  Checked in at {format(new Date(ticket.checkedInAt), "h:mm a")}
+                </div>
+              ) : (
+                <p>Show this code to the event leader when you arrive.</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </>
+  );
+}
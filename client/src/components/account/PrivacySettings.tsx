@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ErasureRequest } from "@shared/schema";
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Awaiting review",
+  approved: "Approved",
+  rejected: "Declined",
+  completed: "Completed",
+};
+
+export function PrivacySettings() {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const { data: requests } = useQuery<ErasureRequest[]>({
+    queryKey: ["/api/account/erasure-requests"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const exportData = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", "/api/account/export");
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || "my-data.json";
+      return { blob: await res.blob(), filename };
+    },
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError,
+  });
+
+  const requestErasure = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/account/erasure-requests", { reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/account/erasure-requests"] });
+      toast({
+        title: "Request received",
+        description: "A member of our team will review your erasure request.",
+      });
+    },
+    onError,
+  });
+
+  const latest = requests?.[0];
+  const inProgress = latest?.status === "pending" || latest?.status === "approved";
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Download My Data</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Get a copy of your profile, event registrations, orders, conversations and waitlist
+            signup as a JSON file.
+          </p>
+          <Button onClick={() => exportData.mutate()} disabled={exportData.isPending}>
+            <Download className="h-4 w-4 mr-2" />
+            {exportData.isPending ? "Preparing..." : "Download My Data"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Erase My Data</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Ask us to erase your personal information under GDPR or the CCPA. A member of our team
+            reviews each request; order records we must keep for accounting are anonymized instead
+            of deleted.
+          </p>
+
+          {latest && (
+            <div className="flex items-center justify-between p-3 border rounded-lg text-sm">
+              <span>Requested {format(new Date(latest.createdAt), "MMM d, yyyy")}</span>
+              <Badge variant={latest.status === "rejected" ? "destructive" : "secondary"}>
+                {STATUS_LABELS[latest.status] || latest.status}
+              </Badge>
+            </div>
+          )}
+          {latest?.status === "rejected" && latest.reviewNote && (
+            <p className="text-sm text-muted-foreground">Reason: {latest.reviewNote}</p>
+          )}
+
+          {!inProgress && (
+            <>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Anything we should know? (optional)"
+              />
+              <Button
+                variant="outline"
+                onClick={() => requestErasure.mutate()}
+                disabled={requestErasure.isPending}
+              >
+                {requestErasure.isPending ? "Submitting..." : "Request Erasure"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { EXPERIENCE_LEVELS, updateProfileSchema, type UpdateProfile, type User } from "@shared/schema";
+
+const EXPERIENCE_LABELS: Record<typeof EXPERIENCE_LEVELS[number], string> = {
+  beginner: "Beginner - short, easy walks",
+  intermediate: "Intermediate - regular hikes with some climbing",
+  advanced: "Advanced - long or strenuous trails",
+};
+
+const TEXT_FIELDS: { name: "displayName" | "phone" | "emergencyContactName" | "emergencyContactPhone"; label: string; type?: string }[] = [
+  { name: "displayName", label: "Display Name" },
+  { name: "phone", label: "Phone", type: "tel" },
+  { name: "emergencyContactName", label: "Emergency Contact Name" },
+  { name: "emergencyContactPhone", label: "Emergency Contact Phone", type: "tel" },
+];
+
+export function ProfileForm({ user }: { user: User }) {
+  const { toast } = useToast();
+
+  const form = useForm<UpdateProfile>({
+    resolver: zodResolver(updateProfileSchema),
+    defaultValues: {
+      displayName: user.displayName,
+      phone: user.phone,
+      emergencyContactName: user.emergencyContactName,
+      emergencyContactPhone: user.emergencyContactPhone,
+      experienceLevel: user.experienceLevel as UpdateProfile["experienceLevel"],
+      avatarUrl: user.avatarUrl,
+    },
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: async (data: UpdateProfile) => {
+      const res = await apiRequest("PATCH", "/api/account/profile", data);
+      return res.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      queryClient.setQueryData(["/api/auth/me"], (current: object | null) => ({ ...current, ...updatedUser }));
+      toast({
+        title: "Profile saved",
+        description: "Your profile has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save profile",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const avatarUrl = form.watch("avatarUrl");
+  const initials = (user.displayName || user.username).slice(0, 2).toUpperCase();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => mutate(data))} className="space-y-4">
+            <div className="flex items-center gap-4">
+              <Avatar className="h-16 w-16">
+                {avatarUrl && <AvatarImage src={avatarUrl} alt="Avatar" />}
+                <AvatarFallback>{initials}</AvatarFallback>
+              </Avatar>
+              <FormField
+                control={form.control}
+                name="avatarUrl"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>Avatar URL</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value || null)}
+                        placeholder="https://..."
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {TEXT_FIELDS.map(({ name, label, type }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type={type}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value || null)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <FormField
+              control={form.control}
+              name="experienceLevel"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Hiking Experience</FormLabel>
+                  <Select value={field.value ?? undefined} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select your experience level" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {EXPERIENCE_LEVELS.map((level) => (
+                        <SelectItem key={level} value={level}>
+                          {EXPERIENCE_LABELS[level]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Helps our leaders plan the pace of each walk.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" disabled={isPending}>
+              {isPending ? "Saving..." : "Save Profile"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+function RecoveryCodeList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm">
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+        access to your authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-muted rounded-lg font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button className="w-full" onClick={onDone}>I have saved my codes</Button>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa/status"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+  };
+
+  const startSetup = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return res.json();
+    },
+    onSuccess: (data: TwoFactorSetup) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError,
+  });
+
+  const enable = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+    },
+    onError,
+  });
+
+  const disable = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/2fa/disable", { password });
+    },
+    onSuccess: () => {
+      setPassword("");
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Your account is now protected by your password only.",
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const regenerate = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { password });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setPassword("");
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+    },
+    onError,
+  });
+
+  return (
+    <Card id="two-factor">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin" />
+        ) : recoveryCodes ? (
+          <RecoveryCodeList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Scan this QR code with an authenticator app such as Google Authenticator or 1Password,
+              then enter the 6-digit code it shows.
+            </p>
+            <div className="flex justify-center">
+              <img src={setup.qrCodeDataUrl} alt="Two-factor QR code" className="w-48 h-48" />
+            </div>
+            <p className="text-sm text-muted-foreground text-center">
+              Can't scan? Enter this key manually:
+              <br />
+              <code className="font-mono break-all">{setup.secret}</code>
+            </p>
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode}>
+                <InputOTPGroup>
+                  {[...Array(6)].map((_, i) => (
+                    <InputOTPSlot key={i} index={i} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => enable.mutate()}
+                disabled={code.length !== 6 || enable.isPending}
+              >
+                {enable.isPending ? "Verifying..." : "Turn On"}
+              </Button>
+            </div>
+          </div>
+        ) : status?.enabled ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <ShieldCheck className="h-5 w-5 text-green-500" />
+              You have {status.recoveryCodesRemaining} unused recovery codes left.
+            </div>
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Confirm your password"
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => regenerate.mutate()}
+                disabled={!password || regenerate.isPending}
+              >
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="destructive"
+                  className="flex-1"
+                  onClick={() => disable.mutate()}
+                  disabled={!password || disable.isPending}
+                >
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Add a second step to sign-in using a code from an authenticator app on your phone.
+            </p>
+            {status?.required && (
+              <p className="text-sm text-red-500">
+                Two-factor authentication is required for your account before you can use the admin panel.
+              </p>
+            )}
+            <Button onClick={() => startSetup.mutate()} disabled={startSetup.isPending}>
+              {startSetup.isPending ? "Starting..." : "Set Up Two-Factor Authentication"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
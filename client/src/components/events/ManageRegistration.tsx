@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getRefundPercent } from "@shared/refund-policy";
+import type { Event, Registration } from "@shared/schema";
+
+type ManageRegistrationProps = {
+  event: Pick<Event, "id" | "refundPolicy"> & { date: string };
+  registration: Registration;
+};
+
+type CancelledRegistration = Registration & { refundError?: string };
+
+export function ManageRegistration({ event, registration }: ManageRegistrationProps) {
+  const { toast } = useToast();
+  const [recipient, setRecipient] = useState("");
+  const [transferOpen, setTransferOpen] = useState(false);
+
+  const amountPaid = registration.amountPaid ? parseFloat(registration.amountPaid) : 0;
+  const refundPercent = getRefundPercent(event.refundPolicy, event.date);
+  const estimatedRefund = (amountPaid * refundPercent) / 100;
+
+  const refreshEvent = () => queryClient.invalidateQueries({ queryKey: [`/api/events/${event.id}`] });
+
+  const cancel = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/registrations/${registration.id}/cancel`);
+      return res.json();
+    },
+    onSuccess: (cancelled: CancelledRegistration) => {
+      refreshEvent();
+      if (cancelled.refundError) {
+        toast({
+          title: "Registration cancelled",
+          description: cancelled.refundError,
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Registration cancelled",
+        description: cancelled.amountRefunded
+          ? `$${parseFloat(cancelled.amountRefunded).toFixed(2)} will be refunded to your original payment method.`
+          : "Your spot has been released.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not cancel registration",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transfer = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/registrations/${registration.id}/transfer`, { recipient });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      setTransferOpen(false);
+      refreshEvent();
+      toast({
+        title: "Registration transferred",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not transfer registration",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex gap-2">
+      <Dialog
+        open={transferOpen}
+        onOpenChange={(open) => {
+          setTransferOpen(open);
+          setRecipient("");
+        }}
+      >
+        <DialogTrigger asChild>
+          <Button variant="outline" className="flex-1">Transfer</Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Transfer your registration</DialogTitle>
+            <DialogDescription>
+              Give your spot to another member. They need a verified account, and any payment stays with
+              the registration.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+            placeholder="Username or email"
+          />
+          <DialogFooter>
+            <Button onClick={() => transfer.mutate()} disabled={!recipient.trim() || transfer.isPending}>
+              {transfer.isPending ? "Transferring..." : "Transfer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" className="flex-1">Cancel</Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel your registration?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {amountPaid > 0
+                ? refundPercent > 0
+                  ? `You will be refunded $${estimatedRefund.toFixed(2)} (${refundPercent}% of what you paid).`
+                  : "It's too late for a refund under this event's policy."
+                : "Your spot will be released to someone else."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Registration</AlertDialogCancel>
+            <Button variant="destructive" onClick={() => cancel.mutate()} disabled={cancel.isPending}>
+              {cancel.isPending ? "Cancelling..." : "Cancel Registration"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import ReCAPTCHA from "react-google-recaptcha";
+import { Checkbox } from "@/components/ui/checkbox";
+
+type CaptchaChallengeProps = {
+  onChange: (token: string | null) => void;
+};
+
+const SITE_KEY = import.meta.env.VITE_RECAPTCHA_SITE_KEY;
+
+// Falls back to a plain checkbox when no site key is configured; the server
+// accepts any token in that mode (see server/services/recaptcha.ts).
+export function CaptchaChallenge({ onChange }: CaptchaChallengeProps) {
+  if (SITE_KEY) {
+    return (
+      <div className="flex justify-center">
+        <ReCAPTCHA sitekey={SITE_KEY} onChange={onChange} onExpired={() => onChange(null)} />
+      </div>
+    );
+  }
+
+  return (
+    <label className="flex items-center gap-2 p-3 border rounded-lg text-sm">
+      <Checkbox onCheckedChange={(checked) => onChange(checked === true ? "offline-stub" : null)} />
+      I'm not a robot
+    </label>
+  );
+}
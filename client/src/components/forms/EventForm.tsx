@@ -0,0 +1,352 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_REFUND_POLICY } from "@shared/refund-policy";
+import { toZonedDateString, toZonedTimeString, zonedTimeToUtc } from "@shared/timezone";
+import type { Event } from "@shared/schema";
+
+const eventFormSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  description: z.string().trim().min(1, "Description is required"),
+  location: z.string().trim().min(1, "Location is required"),
+  date: z.string().min(1, "Date is required"),
+  time: z.string().min(1, "Start time is required"),
+  capacity: z.coerce.number().int().min(1, "Capacity must be at least 1"),
+  price: z.coerce.number().int().min(0, "Price can't be negative"),
+  imageUrl: z.string().min(1, "Add an image for the event"),
+  fullRefundDaysBefore: z.coerce.number().int().min(0),
+  partialRefundPercent: z.coerce.number().int().min(0).max(100),
+  notifyRegistrants: z.boolean(),
+  notificationMessage: z.string().max(2000),
+});
+
+type EventFormValues = z.infer<typeof eventFormSchema>;
+
+// "duplicate" starts from an existing event but saves a new one
+export type EventFormMode = "create" | "edit" | "duplicate";
+
+type EventFormProps = {
+  mode: EventFormMode;
+  event?: Event;
+  onSaved: () => void;
+};
+
+function getDefaultValues(mode: EventFormMode, event?: Event): EventFormValues {
+  const refundPolicy = event?.refundPolicy ?? DEFAULT_REFUND_POLICY;
+  return {
+    title: event?.title ?? "",
+    description: event?.description ?? "",
+    location: event?.location ?? "",
+    // A duplicate needs its own date
+    date: event && mode === "edit" ? toZonedDateString(new Date(event.date)) : "",
+    time: event ? toZonedTimeString(new Date(event.date)) : "",
+    capacity: event?.capacity ?? 20,
+    price: event?.price ?? 0,
+    imageUrl: event?.imageUrl ?? "",
+    fullRefundDaysBefore: refundPolicy.fullRefundDaysBefore,
+    partialRefundPercent: refundPolicy.partialRefundPercent,
+    notifyRegistrants: true,
+    notificationMessage: "",
+  };
+}
+
+export function EventForm({ mode, event, onSaved }: EventFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<EventFormValues>({
+    resolver: zodResolver(eventFormSchema),
+    defaultValues: getDefaultValues(mode, event),
+  });
+
+  const save = useMutation({
+    mutationFn: async (values: EventFormValues) => {
+      const data = {
+        title: values.title,
+        description: values.description,
+        location: values.location,
+        date: zonedTimeToUtc(values.date, values.time).toISOString(),
+        capacity: values.capacity,
+        price: values.price,
+        imageUrl: values.imageUrl,
+        refundPolicy: {
+          fullRefundDaysBefore: values.fullRefundDaysBefore,
+          partialRefundPercent: values.partialRefundPercent,
+        },
+      };
+
+      const res = mode === "edit"
+        ? await apiRequest("PATCH", `/api/events/${event!.id}`, {
+            ...data,
+            notifyRegistrants: values.notifyRegistrants,
+            notificationMessage: values.notificationMessage || undefined,
+          })
+        : await apiRequest("POST", "/api/events", data);
+      return res.json();
+    },
+    onSuccess: (saved: Event & { notified?: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${saved.id}`] });
+      toast({
+        title: mode === "edit" ? "Event updated" : "Event created",
+        description: saved.notified
+          ? `${saved.notified} registrant${saved.notified === 1 ? " was" : "s were"} notified.`
+          : `${saved.title} has been saved.`,
+      });
+      onSaved();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const upload = useMutation({
+    mutationFn: async (file: File) => {
+      const res = await fetch("/api/admin/uploads/images", {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+        credentials: "include",
+      });
+      const data = await res.json().catch(() => ({ message: res.statusText }));
+      if (!res.ok) {
+        throw new Error(data.message);
+      }
+      return data as { url: string };
+    },
+    onSuccess: ({ url }) => {
+      form.setValue("imageUrl", url, { shouldValidate: true });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const imageUrl = form.watch("imageUrl");
+  const price = form.watch("price");
+  const notifyRegistrants = form.watch("notifyRegistrants");
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => save.mutate(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea rows={4} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="location"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Location</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="time"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start Time</FormLabel>
+                <FormControl>
+                  <Input type="time" {...field} />
+                </FormControl>
+                <FormDescription>Pacific time</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="capacity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Capacity</FormLabel>
+                <FormControl>
+                  <Input type="number" min="1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Price ($)</FormLabel>
+                <FormControl>
+                  <Input type="number" min="0" step="1" {...field} />
+                </FormControl>
+                <FormDescription>0 for a free event</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="imageUrl"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Image</FormLabel>
+              {imageUrl && (
+                <img src={imageUrl} alt="Event preview" className="w-full h-40 object-cover rounded-lg" />
+              )}
+              <div className="flex gap-2">
+                <FormControl>
+                  <Input {...field} placeholder="Image URL, or upload a file" />
+                </FormControl>
+                <Button type="button" variant="outline" disabled={upload.isPending} asChild>
+                  <label className="cursor-pointer">
+                    {upload.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                    <input
+                      type="file"
+                      accept="image/jpeg,image/png,image/gif,image/webp"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) {
+                          upload.mutate(file);
+                        }
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </Button>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {Number(price) > 0 && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="fullRefundDaysBefore"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full refund until (days before)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="partialRefundPercent"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Partial refund after that (%)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" max="100" {...field} />
+                  </FormControl>
+                  <FormDescription>No refund within 24 hours of the start</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {mode === "edit" && (
+          <div className="space-y-4 rounded-lg border p-4">
+            <FormField
+              control={form.control}
+              name="notifyRegistrants"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel>Email registrants about changes to the date, location or details</FormLabel>
+                </FormItem>
+              )}
+            />
+            {notifyRegistrants && (
+              <FormField
+                control={form.control}
+                name="notificationMessage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Note to include (optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+        )}
+
+        <Button type="submit" className="w-full" disabled={save.isPending || upload.isPending}>
+          {save.isPending ? "Saving..." : mode === "edit" ? "Save Changes" : "Create Event"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
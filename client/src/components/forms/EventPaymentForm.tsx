@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { loadStripe } from "@stripe/stripe-js";
+import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY
+  ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY)
+  : null;
+
+type EventPaymentFormProps = {
+  clientSecret: string;
+  amount: number;
+  returnUrl: string;
+  onSubmitted: () => void;
+};
+
+function PaymentForm({ amount, returnUrl, onSubmitted }: Omit<EventPaymentFormProps, "clientSecret">) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) {
+      return;
+    }
+
+    setIsProcessing(true);
+    setPaymentError(null);
+
+    // Card payments finish here; redirect-based methods come back to returnUrl
+    const { error } = await stripe.confirmPayment({
+      elements,
+      confirmParams: { return_url: returnUrl },
+      redirect: "if_required",
+    });
+
+    setIsProcessing(false);
+    if (error) {
+      setPaymentError(error.message || "Payment failed. Please try again.");
+      return;
+    }
+    onSubmitted();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      {paymentError && (
+        <div className="flex items-center gap-2 text-red-500 text-sm">
+          <AlertCircle className="h-4 w-4" />
+          <span>{paymentError}</span>
+        </div>
+      )}
+      <Button type="submit" className="w-full" disabled={isProcessing || !stripe}>
+        {isProcessing ? "Processing..." : `Pay $${amount.toFixed(2)}`}
+      </Button>
+    </form>
+  );
+}
+
+export function EventPaymentForm({ clientSecret, ...props }: EventPaymentFormProps) {
+  if (!stripePromise) {
+    return <p className="text-sm text-red-500">Online payments are not available right now.</p>;
+  }
+
+  return (
+    <Elements stripe={stripePromise} options={{ clientSecret, appearance: { theme: "stripe" } }}>
+      <PaymentForm {...props} />
+    </Elements>
+  );
+}
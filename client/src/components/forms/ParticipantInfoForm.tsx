@@ -0,0 +1,136 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { participantInfoSchema, type ParticipantInfo, type User, type Waiver } from "@shared/schema";
+
+type ParticipantInfoFormProps = {
+  user: User;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (info: ParticipantInfo) => void;
+};
+
+// The waiver and the details trail leaders need, collected before a member
+// takes a spot. Emergency contact details start from the member's profile.
+export function ParticipantInfoForm({ user, submitLabel, isPending, onSubmit }: ParticipantInfoFormProps) {
+  const { data: waiver, isLoading } = useQuery<Waiver | null>({
+    queryKey: ["/api/waivers/current"],
+  });
+
+  const form = useForm<ParticipantInfo>({
+    resolver: zodResolver(participantInfoSchema),
+    defaultValues: {
+      signature: "",
+      emergencyContactName: user.emergencyContactName ?? "",
+      emergencyContactPhone: user.emergencyContactPhone ?? "",
+      medicalNotes: "",
+    },
+  });
+
+  const handleSubmit = (data: ParticipantInfo) => {
+    if (waiver && !data.signature) {
+      form.setError("signature", { message: "Type your full name to sign" });
+      return;
+    }
+    onSubmit({
+      ...data,
+      waiverId: waiver?.id,
+      signature: waiver ? data.signature : undefined,
+      medicalNotes: data.medicalNotes || undefined,
+    });
+  };
+
+  if (isLoading) {
+    return <div className="h-48 bg-muted rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {waiver && (
+          <div className="space-y-2">
+            <p className="font-medium">
+              {waiver.title} <span className="text-xs text-muted-foreground">(version {waiver.version})</span>
+            </p>
+            <div className="max-h-48 overflow-y-auto rounded-md border p-3 text-sm whitespace-pre-line">
+              {waiver.body}
+            </div>
+            <FormField
+              control={form.control}
+              name="signature"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Signature</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ""} placeholder="Type your full name" autoComplete="name" />
+                  </FormControl>
+                  <FormDescription>
+                    Typing your name means you have read and agree to the waiver above.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="emergencyContactName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Emergency Contact Name</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="emergencyContactPhone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Emergency Contact Phone</FormLabel>
+                <FormControl>
+                  <Input {...field} type="tel" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="medicalNotes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Medical Notes (optional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  value={field.value ?? ""}
+                  rows={3}
+                  placeholder="Allergies, conditions or medication the trail leader should know about"
+                />
+              </FormControl>
+              <FormDescription>Only event coordinators can see this.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {isPending ? "Saving..." : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
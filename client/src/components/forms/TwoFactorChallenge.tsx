@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { User } from "@shared/schema";
+
+type TwoFactorChallengeProps = {
+  onVerified: (data: { user: User }) => void;
+  onCancel: () => void;
+};
+
+export function TwoFactorChallenge({ onVerified, onCancel }: TwoFactorChallengeProps) {
+  const { toast } = useToast();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(
+        "POST",
+        "/api/auth/2fa/verify",
+        useRecoveryCode ? { recoveryCode: code } : { code }
+      );
+      return res.json();
+    },
+    onSuccess: onVerified,
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Verification failed",
+        description: error.message || "Please check the code and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutate();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {useRecoveryCode
+          ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+          : "Enter the 6-digit code from your authenticator app."}
+      </p>
+
+      {useRecoveryCode ? (
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="xxxx-xxxx-xxxx-xxxx"
+          autoComplete="one-time-code"
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+            <InputOTPGroup>
+              {[...Array(6)].map((_, i) => (
+                <InputOTPSlot key={i} index={i} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isPending || (useRecoveryCode ? !code : code.length !== 6)}
+      >
+        {isPending ? "Verifying..." : "Verify"}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-primary"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </button>
+        <button type="button" className="text-muted-foreground hover:text-primary" onClick={onCancel}>
+          Back to login
+        </button>
+      </div>
+    </form>
+  );
+}
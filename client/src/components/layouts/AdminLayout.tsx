@@ -3,18 +3,27 @@ import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { 
   LayoutDashboard, 
+  Calendar,
+  FileSignature,
   Package, 
   ShoppingCart, 
   Users,
+  ShieldCheck,
   LogOut 
 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import type { User } from "@shared/schema";
+import { hasAdminAccess, hasPermission, type Permission } from "@shared/permissions";
 
-const ADMIN_LINKS = [
+const ADMIN_LINKS: { href: string; icon: typeof LayoutDashboard; label: string; permission?: Permission }[] = [
   { href: "/admin", icon: LayoutDashboard, label: "Dashboard" },
-  { href: "/admin/products", icon: Package, label: "Products" },
-  { href: "/admin/orders", icon: ShoppingCart, label: "Orders" },
-  { href: "/admin/users", icon: Users, label: "Users" },
+  { href: "/admin/events", icon: Calendar, label: "Events", permission: "events:manage" },
+  { href: "/admin/waivers", icon: FileSignature, label: "Waivers", permission: "events:manage" },
+  { href: "/admin/products", icon: Package, label: "Products", permission: "products:manage" },
+  { href: "/admin/orders", icon: ShoppingCart, label: "Orders", permission: "orders:view" },
+  { href: "/admin/users", icon: Users, label: "Users", permission: "users:view" },
+  { href: "/admin/privacy", icon: ShieldCheck, label: "Privacy", permission: "users:manage" },
 ];
 
 interface AdminLayoutProps {
@@ -24,7 +33,7 @@ interface AdminLayoutProps {
 export function AdminLayout({ children }: AdminLayoutProps) {
   const [, setLocation] = useLocation();
 
-  const { data: user } = useQuery<User | null>({
+  const { data: user } = useQuery<(User & { twoFactorEnrollmentRequired?: boolean }) | null>({
     queryKey: ["/api/auth/me"],
     refetchInterval: false,
   });
@@ -32,12 +41,12 @@ export function AdminLayout({ children }: AdminLayoutProps) {
   useEffect(() => {
     if (user === null) {
       setLocation("/login");
-    } else if (user && !user.isAdmin) {
+    } else if (user && !hasAdminAccess(user)) {
       setLocation("/");
     }
   }, [user, setLocation]);
 
-  if (!user?.isAdmin) {
+  if (!hasAdminAccess(user)) {
     return null;
   }
 
@@ -49,7 +58,7 @@ export function AdminLayout({ children }: AdminLayoutProps) {
           <h1 className="text-xl font-bold">Admin Panel</h1>
         </div>
         <nav className="mt-8">
-          {ADMIN_LINKS.map((link) => (
+          {ADMIN_LINKS.filter((link) => !link.permission || hasPermission(user, link.permission)).map((link) => (
             <a
               key={link.href}
               href={link.href}
@@ -75,7 +84,22 @@ export function AdminLayout({ children }: AdminLayoutProps) {
       {/* Main content */}
       <main className="flex-1 bg-gray-100">
         <div className="p-8">
-          {children}
+          {user?.twoFactorEnrollmentRequired ? (
+            <Card className="max-w-xl">
+              <CardHeader>
+                <CardTitle>Two-Factor Authentication Required</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-muted-foreground">
+                  Admin accounts must use two-factor authentication. Set it up in your account
+                  settings to continue using the admin panel.
+                </p>
+                <Button onClick={() => setLocation("/account#security")}>Go to My Account</Button>
+              </CardContent>
+            </Card>
+          ) : (
+            children
+          )}
         </div>
       </main>
     </div>
@@ -6,6 +6,7 @@ import { useIsMobile } from "@/hooks/use-mobile";
 import { useQuery } from "@tanstack/react-query";
 import { useCart } from "@/hooks/use-cart";
 import type { User } from "@shared/schema";
+import { hasAdminAccess } from "@shared/permissions";
 
 // Social media configuration
 const SOCIAL_LINKS = {
@@ -46,11 +47,14 @@ export function MainLayout({ children }: MainLayoutProps) {
       </Link>
       {user ? (
         <>
-          {user.isAdmin && (
+          {hasAdminAccess(user) && (
             <Link href="/admin">
               <Button variant="ghost">Admin Panel</Button>
             </Link>
           )}
+          <Link href="/account">
+            <Button variant="ghost">My Account</Button>
+          </Link>
           <Link href="/logout">
             <Button variant="ghost">Logout</Button>
           </Link>
@@ -1,13 +1,39 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Calendar, MapPin } from "lucide-react";
+import { Calendar, MapPin, Repeat } from "lucide-react";
 import { format } from "date-fns";
 import type { Event } from "@shared/schema";
 import { Link } from "wouter";
 
+type UpcomingEvent = Event & { recurrence: string | null };
+
+// Occurrences of a series share one card, shown at the position of the next one
+type EventGroup = { event: UpcomingEvent; occurrences: UpcomingEvent[] };
+
+const MAX_LISTED_OCCURRENCES = 4;
+
+function groupBySeries(events: UpcomingEvent[]): EventGroup[] {
+  const groups: EventGroup[] = [];
+  const bySeries = new Map<number, EventGroup>();
+
+  for (const event of events) {
+    const existing = event.seriesId ? bySeries.get(event.seriesId) : undefined;
+    if (existing) {
+      existing.occurrences.push(event);
+      continue;
+    }
+    const group = { event, occurrences: [event] };
+    groups.push(group);
+    if (event.seriesId) {
+      bySeries.set(event.seriesId, group);
+    }
+  }
+  return groups;
+}
+
 export function UpcomingEvents() {
-  const { data: events, isLoading } = useQuery<Event[]>({
+  const { data: events, isLoading } = useQuery<UpcomingEvent[]>({
     queryKey: ["/api/events"],
   });
 
@@ -34,7 +60,7 @@ export function UpcomingEvents() {
       <h2 className="text-3xl font-bold text-center mb-12">Upcoming Events</h2>
       
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {events?.map((event) => (
+        {groupBySeries(events ?? []).map(({ event, occurrences }) => (
           <Card key={event.id}>
             <img
               src={event.imageUrl}
@@ -46,6 +72,12 @@ export function UpcomingEvents() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
+                {event.recurrence && (
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    <Repeat className="mr-2 h-4 w-4" />
+                    {event.recurrence}
+                  </div>
+                )}
                 <div className="flex items-center text-sm text-muted-foreground">
                   <Calendar className="mr-2 h-4 w-4" />
                   {format(new Date(event.date), "MMMM d, yyyy")}
@@ -55,6 +87,22 @@ export function UpcomingEvents() {
                   {event.location}
                 </div>
                 <p className="text-sm line-clamp-2">{event.description}</p>
+                {occurrences.length > 1 && (
+                  <div className="flex flex-wrap gap-2">
+                    {occurrences.slice(1, MAX_LISTED_OCCURRENCES + 1).map((occurrence) => (
+                      <Link key={occurrence.id} href={`/events/${occurrence.id}`}>
+                        <Button variant="outline" size="sm">
+                          {format(new Date(occurrence.date), "MMM d")}
+                        </Button>
+                      </Link>
+                    ))}
+                    {occurrences.length > MAX_LISTED_OCCURRENCES + 1 && (
+                      <span className="text-sm text-muted-foreground self-center">
+                        +{occurrences.length - MAX_LISTED_OCCURRENCES - 1} more
+                      </span>
+                    )}
+                  </div>
+                )}
                 <div className="pt-4">
                   <Link href={`/events/${event.id}`}>
                     <Button className="w-full">Register Now</Button>
@@ -15,6 +15,7 @@ type CartAction =
   | { type: 'ADD_ITEM'; payload: Product }
   | { type: 'REMOVE_ITEM'; payload: number }
   | { type: 'UPDATE_QUANTITY'; payload: { id: number; quantity: number } }
+  | { type: 'UPDATE_PRICES'; payload: Record<number, string> }
   | { type: 'CLEAR_CART' };
 
 const CartContext = createContext<{
@@ -22,6 +23,7 @@ const CartContext = createContext<{
   addItem: (product: Product) => void;
   removeItem: (productId: number) => void;
   updateQuantity: (productId: number, quantity: number) => void;
+  updatePrices: (prices: Record<number, string>) => void;
   clearCart: () => void;
 } | null>(null);
 
@@ -78,6 +80,16 @@ function cartReducer(state: CartState, action: CartAction): CartState {
         total: state.total + (Number(item.price) * quantityDiff)
       };
     }
+    case 'UPDATE_PRICES': {
+      // Prices from the server replace whatever was copied when the item was added
+      const items = state.items.map(item =>
+        action.payload[item.id] !== undefined ? { ...item, price: action.payload[item.id] } : item
+      );
+      return {
+        items,
+        total: items.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0)
+      };
+    }
     case 'CLEAR_CART':
       return { items: [], total: 0 };
     default:
@@ -105,12 +117,16 @@ export function CartProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'UPDATE_QUANTITY', payload: { id: productId, quantity } });
   };
 
+  const updatePrices = (prices: Record<number, string>) => {
+    dispatch({ type: 'UPDATE_PRICES', payload: prices });
+  };
+
   const clearCart = () => {
     dispatch({ type: 'CLEAR_CART' });
   };
 
   return (
-    <CartContext.Provider value={{ state, addItem, removeItem, updateQuantity, clearCart }}>
+    <CartContext.Provider value={{ state, addItem, removeItem, updateQuantity, updatePrices, clearCart }}>
       {children}
     </CartContext.Provider>
   );
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface RosterAttendee {
+  registrationId: number;
+  name: string;
+  username: string;
+  ticket: string;
+  checkedInAt: string | null;
+}
+
+export interface Roster {
+  event: {
+    id: number;
+    title: string;
+    date: string;
+    location: string;
+  };
+  attendees: RosterAttendee[];
+  fetchedAt: string;
+}
+
+interface PendingCheckIn {
+  registrationId: number;
+  checkedInAt: string;
+  ticket?: string;
+}
+
+interface StoredCheckIn {
+  roster: Roster | null;
+  pending: PendingCheckIn[];
+}
+
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+function storageKey(eventId: number) {
+  return `check-in:event:${eventId}`;
+}
+
+function load(eventId: number): StoredCheckIn {
+  try {
+    const stored = localStorage.getItem(storageKey(eventId));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch {
+    // Fall through to an empty state if storage is unavailable or corrupt
+  }
+  return { roster: null, pending: [] };
+}
+
+// Check-ins the server hasn't confirmed yet are shown as already recorded
+function applyPending(roster: Roster, pending: PendingCheckIn[]): Roster {
+  const pendingById = new Map(pending.map((checkIn) => [checkIn.registrationId, checkIn.checkedInAt]));
+  return {
+    ...roster,
+    attendees: roster.attendees.map((attendee) => ({
+      ...attendee,
+      checkedInAt: attendee.checkedInAt ?? pendingById.get(attendee.registrationId) ?? null,
+    })),
+  };
+}
+
+// Keeps the event roster and any check-ins made without a connection in
+// localStorage, so a coordinator can keep working on the trail and the
+// queue is sent once the phone is back in coverage.
+export function useOfflineCheckIn(eventId: number) {
+  const [state, setState] = useState<StoredCheckIn>(() => load(eventId));
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stateRef = useRef(state);
+  const syncingRef = useRef(false);
+
+  const update = useCallback((next: (current: StoredCheckIn) => StoredCheckIn) => {
+    const updated = next(stateRef.current);
+    stateRef.current = updated;
+    setState(updated);
+    try {
+      localStorage.setItem(storageKey(eventId), JSON.stringify(updated));
+    } catch {
+      // Still usable for this session even if the device refuses to store it
+    }
+  }, [eventId]);
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine || syncingRef.current) {
+      return;
+    }
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const sent = stateRef.current.pending;
+      if (sent.length > 0) {
+        const res = await fetch(`/api/events/${eventId}/check-ins`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ checkIns: sent }),
+          credentials: "include",
+        });
+        if (!res.ok) {
+          throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+        }
+        const sentIds = new Set(sent.map((checkIn) => checkIn.registrationId));
+        update((current) => ({
+          ...current,
+          pending: current.pending.filter((checkIn) => !sentIds.has(checkIn.registrationId)),
+        }));
+      }
+
+      const res = await fetch(`/api/events/${eventId}/roster`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      const roster: Roster = await res.json();
+      update((current) => ({ ...current, roster }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sync failed");
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [eventId, update]);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+
+    sync();
+    const timer = setInterval(sync, SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+      clearInterval(timer);
+    };
+  }, [sync]);
+
+  const checkIn = useCallback((registrationId: number, ticket?: string) => {
+    update((current) => {
+      if (current.pending.some((checkIn) => checkIn.registrationId === registrationId)) {
+        return current;
+      }
+      return {
+        ...current,
+        pending: [...current.pending, { registrationId, checkedInAt: new Date().toISOString(), ticket }],
+      };
+    });
+    sync();
+  }, [update, sync]);
+
+  const roster = state.roster ? applyPending(state.roster, state.pending) : null;
+
+  return {
+    roster,
+    pendingCount: state.pending.length,
+    isOnline,
+    isSyncing,
+    error,
+    checkIn,
+    sync,
+  };
+}
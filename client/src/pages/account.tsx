@@ -0,0 +1,75 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { MainLayout } from "@/components/layouts/MainLayout";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ProfileForm } from "@/components/account/ProfileForm";
+import { ChangeEmailForm } from "@/components/account/ChangeEmailForm";
+import { ChangePasswordForm } from "@/components/account/ChangePasswordForm";
+import { ManagePasskeys } from "@/components/account/ManagePasskeys";
+import { ActiveSessions } from "@/components/account/ActiveSessions";
+import { TwoFactorSettings } from "@/components/account/TwoFactorSettings";
+import { DeleteAccount } from "@/components/account/DeleteAccount";
+import { PrivacySettings } from "@/components/account/PrivacySettings";
+import { MyTickets } from "@/components/account/MyTickets";
+import { CalendarFeed } from "@/components/account/CalendarFeed";
+import type { User } from "@shared/schema";
+
+export default function Account() {
+  const [, setLocation] = useLocation();
+
+  const { data: user } = useQuery<User | null>({
+    queryKey: ["/api/auth/me"],
+  });
+
+  useEffect(() => {
+    if (user === null) {
+      setLocation("/login");
+    }
+  }, [user, setLocation]);
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <h1 className="text-4xl font-bold">My Account</h1>
+
+          <Tabs defaultValue={window.location.hash.slice(1) || "profile"}>
+            <TabsList>
+              <TabsTrigger value="profile">Profile</TabsTrigger>
+              <TabsTrigger value="tickets">Tickets</TabsTrigger>
+              <TabsTrigger value="security">Sign-in & Security</TabsTrigger>
+              <TabsTrigger value="privacy">Privacy</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="profile" className="space-y-6">
+              <ProfileForm user={user} />
+            </TabsContent>
+
+            <TabsContent value="tickets" className="space-y-6">
+              <MyTickets />
+              <CalendarFeed />
+            </TabsContent>
+
+            <TabsContent value="security" className="space-y-6">
+              <ChangeEmailForm user={user} />
+              <ChangePasswordForm />
+              <ManagePasskeys />
+              <TwoFactorSettings />
+              <ActiveSessions />
+            </TabsContent>
+
+            <TabsContent value="privacy" className="space-y-6">
+              <PrivacySettings />
+              <DeleteAccount />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
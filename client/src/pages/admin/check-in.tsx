@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams } from "wouter";
+import { format } from "date-fns";
+import { Camera, CameraOff, CheckCircle, RefreshCw, Wifi, WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useOfflineCheckIn, type RosterAttendee } from "@/hooks/use-offline-check-in";
+
+// BarcodeDetector isn't in the DOM typings yet; only what the scanner uses
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 500;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+function TicketScanner({ onScan }: { onScan: (value: string) => void }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState<string | null>(null);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!BarcodeDetector) {
+      setError("This browser can't scan QR codes. Search for the attendee by name instead.");
+      return;
+    }
+
+    const detector = new BarcodeDetector({ formats: ["qr_code"] });
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let lastValue: string | null = null;
+    let stopped = false;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((media) => {
+        if (stopped) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current!;
+        video.srcObject = media;
+        video.play();
+
+        timer = setInterval(async () => {
+          if (video.readyState < video.HAVE_ENOUGH_DATA) {
+            return;
+          }
+          try {
+            const [code] = await detector.detect(video);
+            // Holding a code in front of the camera shouldn't check in twice
+            if (code && code.rawValue !== lastValue) {
+              lastValue = code.rawValue;
+              onScanRef.current(code.rawValue);
+            } else if (!code) {
+              lastValue = null;
+            }
+          } catch {
+            // A frame that fails to decode is simply skipped
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(() => setError("Camera access was denied. Search for the attendee by name instead."));
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error}</p>;
+  }
+
+  return <video ref={videoRef} className="w-full rounded-lg bg-black" muted playsInline />;
+}
+
+function AttendeeRow({ attendee, onCheckIn }: { attendee: RosterAttendee; onCheckIn: () => void }) {
+  return (
+    <div className="flex items-center justify-between py-3 border-b last:border-0">
+      <div>
+        <p className="font-medium">{attendee.name}</p>
+        <p className="text-sm text-muted-foreground">{attendee.username}</p>
+      </div>
+      {attendee.checkedInAt ? (
+        <Badge variant="secondary" className="text-green-700">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          {format(new Date(attendee.checkedInAt), "h:mm a")}
+        </Badge>
+      ) : (
+        <Button size="sm" onClick={onCheckIn}>Check In</Button>
+      )}
+    </div>
+  );
+}
+
+// Deliberately outside AdminLayout: that layout needs the session endpoint,
+// and this page has to keep working on the trail without a connection.
+export default function AdminCheckIn() {
+  const { id } = useParams<{ id: string }>();
+  const eventId = parseInt(id);
+  const { toast } = useToast();
+  const { roster, pendingCount, isOnline, isSyncing, error, checkIn, sync } = useOfflineCheckIn(eventId);
+  const [search, setSearch] = useState("");
+  const [isScanning, setIsScanning] = useState(false);
+
+  useEffect(() => {
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.register("/check-in-sw.js").catch((err) => {
+        console.error("Failed to register check-in service worker:", err);
+      });
+    }
+  }, []);
+
+  const handleScan = (value: string) => {
+    const attendee = roster?.attendees.find((a) => a.ticket === value);
+    if (!attendee) {
+      toast({
+        title: "Ticket not recognised",
+        description: "This ticket isn't for this event, or the registration was cancelled or transferred.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (attendee.checkedInAt) {
+      toast({
+        title: `${attendee.name} is already checked in`,
+        description: `Checked in at ${format(new Date(attendee.checkedInAt), "h:mm a")}.`,
+      });
+      return;
+    }
+    checkIn(attendee.registrationId, value);
+    toast({ title: `${attendee.name} checked in` });
+  };
+
+  const query = search.trim().toLowerCase();
+  const attendees = (roster?.attendees ?? []).filter(
+    (a) => !query || a.name.toLowerCase().includes(query) || a.username.toLowerCase().includes(query)
+  );
+  const checkedInCount = roster?.attendees.filter((a) => a.checkedInAt).length ?? 0;
+
+  return (
+    <div className="container max-w-2xl py-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{roster?.event.title ?? "Check-in"}</h1>
+          {roster && (
+            <p className="text-sm text-muted-foreground">
+              {format(new Date(roster.event.date), "EEEE, MMMM d 'at' h:mm a")} · {roster.event.location}
+            </p>
+          )}
+        </div>
+        <Badge variant={isOnline ? "secondary" : "destructive"}>
+          {isOnline ? <Wifi className="h-3 w-3 mr-1" /> : <WifiOff className="h-3 w-3 mr-1" />}
+          {isOnline ? "Online" : "Offline"}
+        </Badge>
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span>
+          {checkedInCount} of {roster?.attendees.length ?? 0} checked in
+          {pendingCount > 0 && ` · ${pendingCount} waiting to sync`}
+        </span>
+        <Button size="sm" variant="outline" onClick={() => sync()} disabled={!isOnline || isSyncing}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
+          Sync
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive">
+          Last sync failed: {error}
+          {roster && " Showing the roster saved on this device."}
+        </p>
+      )}
+      {roster && (
+        <p className="text-xs text-muted-foreground">
+          Roster last updated {format(new Date(roster.fetchedAt), "MMM d 'at' h:mm a")}
+        </p>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Scan Ticket</CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setIsScanning(!isScanning)} disabled={!roster}>
+            {isScanning ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+            {isScanning ? "Stop" : "Start Camera"}
+          </Button>
+        </CardHeader>
+        {isScanning && (
+          <CardContent>
+            <TicketScanner onScan={handleScan} />
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Attendees</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or username"
+            className="mb-2"
+          />
+          {!roster ? (
+            <p className="py-4 text-sm text-muted-foreground">
+              {isOnline ? "Loading roster..." : "Connect once to download the roster to this device."}
+            </p>
+          ) : attendees.length === 0 ? (
+            <p className="py-4 text-sm text-muted-foreground">No matching attendees.</p>
+          ) : (
+            attendees.map((attendee) => (
+              <AttendeeRow
+                key={attendee.registrationId}
+                attendee={attendee}
+                onCheckIn={() => checkIn(attendee.registrationId)}
+              />
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { PlusIcon } from "lucide-react";
+import { AdminLayout } from "@/components/layouts/AdminLayout";
+import { EventForm, type EventFormMode } from "@/components/forms/EventForm";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Event } from "@shared/schema";
+
+type EventSummary = Event & {
+  registeredCount: number;
+  waitlistCount: number;
+};
+
+const FORM_TITLES: Record<EventFormMode, string> = {
+  create: "Add Event",
+  edit: "Edit Event",
+  duplicate: "Duplicate Event",
+};
+
+function CancelEventButton({ event }: { event: EventSummary }) {
+  const { toast } = useToast();
+  const [notificationMessage, setNotificationMessage] = useState("");
+
+  const cancelEvent = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${event.id}/cancel`, {
+        notificationMessage: notificationMessage || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (data: { registrationsCancelled: number; notified: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      toast({
+        title: "Event cancelled",
+        description: `${data.registrationsCancelled} registration${data.registrationsCancelled === 1 ? "" : "s"} released and ${data.notified} member${data.notified === 1 ? "" : "s"} notified.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not cancel event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AlertDialog onOpenChange={() => setNotificationMessage("")}>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="outline" className="text-red-600">Cancel</Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel {event.title}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {event.registeredCount > 0
+              ? `All ${event.registeredCount} registrants will be emailed and anyone who paid will be refunded in full.`
+              : "Nobody is registered yet."}{" "}
+            This cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Textarea
+          value={notificationMessage}
+          onChange={(e) => setNotificationMessage(e.target.value)}
+          placeholder="Optional note for registrants, e.g. the reason or a date it moves to"
+          rows={3}
+        />
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep Event</AlertDialogCancel>
+          <Button variant="destructive" onClick={() => cancelEvent.mutate()} disabled={cancelEvent.isPending}>
+            {cancelEvent.isPending ? "Cancelling..." : "Cancel Event"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+export default function AdminEvents() {
+  const [editing, setEditing] = useState<{ mode: EventFormMode; event?: EventSummary } | null>(null);
+
+  const { data: events, isLoading } = useQuery<EventSummary[]>({
+    queryKey: ["/api/admin/events"],
+  });
+
+  if (isLoading) {
+    return (
+      <AdminLayout>
+        <div className="animate-pulse space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-16 bg-muted rounded-lg" />
+          ))}
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Events</h1>
+        <Button onClick={() => setEditing({ mode: "create" })}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Event
+        </Button>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {editing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{FORM_TITLES[editing.mode]}</DialogTitle>
+              </DialogHeader>
+              <EventForm
+                key={`${editing.mode}-${editing.event?.id ?? "new"}`}
+                mode={editing.mode}
+                event={editing.event}
+                onSaved={() => setEditing(null)}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Registered</TableHead>
+                <TableHead>Waitlist</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events?.map((event) => {
+                const isPast = new Date(event.date) < new Date();
+                return (
+                  <TableRow key={event.id}>
+                    <TableCell>
+                      <a href={`/events/${event.id}`} className="font-medium hover:underline">
+                        {event.title}
+                      </a>
+                      {event.seriesId && (
+                        <Badge variant="outline" className="ml-2">Series</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{format(new Date(event.date), "MMM d, yyyy h:mm a")}</TableCell>
+                    <TableCell>
+                      {event.registeredCount} / {event.capacity}
+                    </TableCell>
+                    <TableCell>{event.waitlistCount}</TableCell>
+                    <TableCell>
+                      {event.cancelledAt ? (
+                        <Badge variant="destructive">Cancelled</Badge>
+                      ) : isPast ? (
+                        <Badge variant="secondary">Past</Badge>
+                      ) : (
+                        <Badge>Upcoming</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {!event.cancelledAt && !isPast && (
+                          <Button size="sm" variant="outline" onClick={() => setEditing({ mode: "edit", event })}>
+                            Edit
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => setEditing({ mode: "duplicate", event })}>
+                          Duplicate
+                        </Button>
+                        {!event.cancelledAt && event.registeredCount > 0 && (
+                          <Button size="sm" variant="outline" asChild>
+                            <a href={`/admin/events/${event.id}/check-in`}>Check-in</a>
+                          </Button>
+                        )}
+                        {!event.cancelledAt && event.registeredCount > 0 && (
+                          <Button size="sm" variant="outline" asChild>
+                            <a href={`/api/events/${event.id}/roster.pdf`} target="_blank" rel="noopener noreferrer">
+                              Roster PDF
+                            </a>
+                          </Button>
+                        )}
+                        {!event.cancelledAt && !isPast && <CancelEventButton event={event} />}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </AdminLayout>
+  );
+}
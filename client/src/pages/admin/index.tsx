@@ -3,18 +3,25 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useQuery } from "@tanstack/react-query";
 import { Package, ShoppingCart, Users } from "lucide-react";
 import type { Product, Order, User } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 
 export default function AdminDashboard() {
+  const { data: user } = useQuery<User | null>({
+    queryKey: ["/api/auth/me"],
+  });
+
   const { data: products } = useQuery<Product[]>({
     queryKey: ["/api/products"],
   });
 
   const { data: orders } = useQuery<Order[]>({
     queryKey: ["/api/orders"],
+    enabled: hasPermission(user, "orders:view"),
   });
 
   const { data: users } = useQuery<User[]>({
     queryKey: ["/api/users"],
+    enabled: hasPermission(user, "users:view"),
   });
 
   return (
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AdminLayout } from "@/components/layouts/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ErasureRequest, PrivacyAuditLogEntry } from "@shared/schema";
+
+type AdminErasureRequest = ErasureRequest & { username: string | null; email: string | null };
+
+const ACTION_LABELS: Record<string, string> = {
+  data_exported: "Data exported",
+  erasure_requested: "Erasure requested",
+  erasure_rejected: "Erasure rejected",
+  erasure_completed: "Erasure completed",
+  account_deleted: "Account deleted by user",
+};
+
+function ErasureRequestRow({ request }: { request: AdminErasureRequest }) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+
+  const onSuccess = (title: string) => () => {
+    toast({ title, description: `Request #${request.id} has been updated.` });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/erasure-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/privacy-audit-log"] });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const approve = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/erasure-requests/${request.id}/approve`);
+    },
+    onSuccess: onSuccess("Data erased"),
+    onError,
+  });
+
+  const reject = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/erasure-requests/${request.id}/reject`, { note });
+    },
+    onSuccess: onSuccess("Request rejected"),
+    onError,
+  });
+
+  return (
+    <TableRow>
+      <TableCell>{format(new Date(request.createdAt), "MMM d, yyyy")}</TableCell>
+      <TableCell>
+        <div className="font-medium">{request.username}</div>
+        <div className="text-sm text-muted-foreground">{request.email}</div>
+      </TableCell>
+      <TableCell className="max-w-xs text-sm">{request.reason || "-"}</TableCell>
+      <TableCell>
+        <Badge variant={request.status === "pending" ? "default" : "secondary"}>{request.status}</Badge>
+        {request.reviewNote && (
+          <div className="text-sm text-muted-foreground mt-1">{request.reviewNote}</div>
+        )}
+      </TableCell>
+      <TableCell>
+        {request.status === "pending" && (
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => {
+                if (confirm("Erase this user's personal data? This cannot be undone.")) {
+                  approve.mutate();
+                }
+              }}
+              disabled={approve.isPending || reject.isPending}
+            >
+              Approve & Erase
+            </Button>
+            <Input
+              className="h-8 w-40"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Reason to reject"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => reject.mutate()}
+              disabled={!note.trim() || approve.isPending || reject.isPending}
+            >
+              Reject
+            </Button>
+          </div>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function AdminPrivacy() {
+  const { data: requests, isLoading } = useQuery<AdminErasureRequest[]>({
+    queryKey: ["/api/admin/erasure-requests"],
+  });
+
+  const { data: auditLog } = useQuery<PrivacyAuditLogEntry[]>({
+    queryKey: ["/api/admin/privacy-audit-log"],
+  });
+
+  return (
+    <AdminLayout>
+      <h1 className="text-2xl font-bold mb-6">Privacy</h1>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Erasure Requests</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requested</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : requests?.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">No erasure requests</TableCell>
+                </TableRow>
+              ) : (
+                requests?.map((request) => <ErasureRequestRow key={request.id} request={request} />)
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Log</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {auditLog?.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>{format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}</TableCell>
+                  <TableCell>{ACTION_LABELS[entry.action] || entry.action}</TableCell>
+                  <TableCell>#{entry.subjectUserId}</TableCell>
+                  <TableCell>{entry.actorUserId ? `#${entry.actorUserId}` : "System"}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {entry.details
+                      ? Object.entries(entry.details as Record<string, unknown>)
+                          .map(([key, value]) => `${key}: ${value}`)
+                          .join(", ")
+                      : "-"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </AdminLayout>
+  );
+}
@@ -225,6 +225,7 @@ export default function AdminProducts() {
                 <span className="font-bold">${Number(product.price).toFixed(2)}</span>
                 <span className="text-sm text-muted-foreground">
                   Stock: {product.stock}
+                  {product.reserved > 0 && ` (${product.reserved} reserved)`}
                 </span>
               </div>
             </CardContent>
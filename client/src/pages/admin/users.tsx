@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { AdminLayout } from "@/components/layouts/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SecurityPolicy, User } from "@shared/schema";
+import { ROLES, ROLE_NAMES, hasPermission, type Role } from "@shared/permissions";
+
+function UserRoleRow({ user, canManage, isSelf }: { user: User; canManage: boolean; isSelf: boolean }) {
+  const { toast } = useToast();
+  const [roles, setRoles] = useState<Role[]>(user.roles as Role[]);
+  const isDirty = roles.slice().sort().join() !== user.roles.slice().sort().join();
+
+  const saveRoles = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/users/${user.id}/roles`, { roles });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Roles updated",
+        description: `${user.username}'s roles have been saved.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlock = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/users/${user.id}/unlock`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Account unlocked",
+        description: `${user.username} can sign in again.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const signOutEverywhere = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/users/${user.id}/sessions`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Sessions revoked",
+        description: `${user.username} has been signed out on every device.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isLocked = !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
+  const toggleRole = (role: Role, checked: boolean) => {
+    setRoles((current) => checked ? [...current, role] : current.filter((r) => r !== role));
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{user.username}</TableCell>
+      <TableCell>{user.email}</TableCell>
+      <TableCell>
+        {user.deletedAt ? (
+          <Badge variant="outline">Deleted</Badge>
+        ) : isLocked ? (
+          <div className="flex items-center gap-2">
+            <Badge variant="destructive">Locked</Badge>
+            {canManage && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => unlock.mutate()}
+                disabled={unlock.isPending}
+              >
+                Unlock
+              </Button>
+            )}
+          </div>
+        ) : user.failedLoginAttempts > 0 ? (
+          <span className="text-sm text-muted-foreground">{user.failedLoginAttempts} failed logins</span>
+        ) : (
+          <span className="text-sm text-muted-foreground">Active</span>
+        )}
+      </TableCell>
+      <TableCell>
+        {canManage && !isSelf ? (
+          <div className="flex flex-wrap gap-4">
+            {ROLE_NAMES.map((role) => (
+              <label key={role} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={roles.includes(role)}
+                  onCheckedChange={(checked) => toggleRole(role, checked === true)}
+                />
+                {ROLES[role].label}
+              </label>
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {user.roles.length ? user.roles.map((role) => (
+              <Badge key={role} variant="secondary">{ROLES[role as Role]?.label || role}</Badge>
+            )) : user.isAdmin ? (
+              <Badge variant="secondary">{ROLES["super-admin"].label}</Badge>
+            ) : (
+              <span className="text-sm text-muted-foreground">Member</span>
+            )}
+          </div>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        {canManage && !isSelf && (
+          <div className="flex justify-end gap-2">
+            <Button
+              size="sm"
+              onClick={() => saveRoles.mutate()}
+              disabled={!isDirty || saveRoles.isPending}
+            >
+              {saveRoles.isPending ? "Saving..." : "Save"}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => signOutEverywhere.mutate()}
+              disabled={signOutEverywhere.isPending}
+            >
+              Sign out everywhere
+            </Button>
+          </div>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function SecurityPolicyCard() {
+  const { toast } = useToast();
+
+  const { data: policy } = useQuery<SecurityPolicy>({
+    queryKey: ["/api/admin/security-policy"],
+  });
+
+  const updatePolicy = useMutation({
+    mutationFn: async (requireAdminTwoFactor: boolean) => {
+      const res = await apiRequest("PUT", "/api/admin/security-policy", { requireAdminTwoFactor });
+      return res.json();
+    },
+    onSuccess: (data: SecurityPolicy) => {
+      queryClient.setQueryData(["/api/admin/security-policy"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({
+        title: "Security policy updated",
+        description: data.requireAdminTwoFactor
+          ? "Admins must now use two-factor authentication."
+          : "Two-factor authentication is now optional for admins.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Security Policy</CardTitle>
+      </CardHeader>
+      <CardContent className="flex items-center justify-between">
+        <div>
+          <p className="font-medium">Require two-factor authentication for admins</p>
+          <p className="text-sm text-muted-foreground">
+            Users with any admin role must set up an authenticator app before using the admin panel.
+          </p>
+        </div>
+        <Switch
+          checked={policy?.requireAdminTwoFactor ?? false}
+          onCheckedChange={(checked) => updatePolicy.mutate(checked)}
+          disabled={!policy || updatePolicy.isPending}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminUsers() {
+  const { data: currentUser } = useQuery<User | null>({
+    queryKey: ["/api/auth/me"],
+  });
+
+  const { data: users, isLoading } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const canManage = hasPermission(currentUser, "users:manage");
+
+  if (isLoading) {
+    return (
+      <AdminLayout>
+        <div className="animate-pulse space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-16 bg-muted rounded-lg" />
+          ))}
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <h1 className="text-2xl font-bold mb-6">Users</h1>
+
+      {canManage && <SecurityPolicyCard />}
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Username</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Roles</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users?.map((user) => (
+                <UserRoleRow
+                  key={user.id}
+                  user={user}
+                  canManage={canManage}
+                  isSelf={user.id === currentUser?.id}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AdminLayout } from "@/components/layouts/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Waiver } from "@shared/schema";
+
+export default function AdminWaivers() {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+
+  const { data: waivers, isLoading } = useQuery<Waiver[]>({
+    queryKey: ["/api/admin/waivers"],
+  });
+  const current = waivers?.[0];
+
+  // Start a new version from the wording currently in force
+  useEffect(() => {
+    if (current) {
+      setTitle(current.title);
+      setBody(current.body);
+    }
+  }, [current?.id]);
+
+  const publish = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/waivers", { title, body });
+      return res.json();
+    },
+    onSuccess: (waiver: Waiver) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/waivers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/waivers/current"] });
+      toast({
+        title: `Version ${waiver.version} published`,
+        description: "New registrations will sign this version.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not publish waiver",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isUnchanged = !!current && current.title === title.trim() && current.body === body.trim();
+
+  return (
+    <AdminLayout>
+      <h1 className="text-2xl font-bold mb-6">Waivers</h1>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>{current ? "Publish a New Version" : "Publish the First Waiver"}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Published versions can't be edited. Members who already signed keep their signature on the
+            version they agreed to; everyone registering afterwards signs the new one.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="waiver-title">Title</Label>
+            <Input id="waiver-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="waiver-body">Waiver Text</Label>
+            <Textarea id="waiver-body" value={body} onChange={(e) => setBody(e.target.value)} rows={14} />
+          </div>
+          <Button
+            onClick={() => publish.mutate()}
+            disabled={publish.isPending || !title.trim() || !body.trim() || isUnchanged}
+          >
+            {publish.isPending ? "Publishing..." : current ? `Publish Version ${current.version + 1}` : "Publish"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading ? (
+            <div className="h-16 bg-muted rounded-lg animate-pulse" />
+          ) : !waivers?.length ? (
+            <p className="text-sm text-muted-foreground">
+              No waiver has been published yet. Members register with just an emergency contact until one is.
+            </p>
+          ) : (
+            waivers.map((waiver) => (
+              <details key={waiver.id} className="rounded-md border p-3">
+                <summary className="cursor-pointer">
+                  <span className="font-medium">Version {waiver.version}</span> · {waiver.title} ·{" "}
+                  <span className="text-sm text-muted-foreground">
+                    {format(new Date(waiver.createdAt), "MMM d, yyyy")}
+                  </span>
+                  {waiver.id === current?.id && <Badge className="ml-2">Current</Badge>}
+                </summary>
+                <p className="mt-3 text-sm whitespace-pre-line">{waiver.body}</p>
+              </details>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </AdminLayout>
+  );
+}
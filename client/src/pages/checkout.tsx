@@ -10,11 +10,14 @@ import { MainLayout } from "@/components/layouts/MainLayout";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Loader2, AlertCircle, TruckIcon } from "lucide-react";
+import { ShippingAddressForm } from "@/components/forms/ShippingAddressForm";
 import { Link, useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import type { ShippingRate } from "@shared/schema";
+import { Label } from "@/components/ui/label";
+import type { Order, ShippingAddress } from "@shared/schema";
+import { formatCents, type PriceBreakdown } from "@shared/pricing";
 
 if (!import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
   throw new Error('Missing required Stripe key: VITE_STRIPE_PUBLIC_KEY');
@@ -22,15 +25,36 @@ if (!import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
 
 const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY);
 
-function CheckoutForm() {
+// A rate as quoted by /api/shipping/quote
+type ShippingQuote = {
+  carrier: string;
+  service: string;
+  rate: number;
+  estimatedDays: number;
+};
+
+type CreatedOrder = {
+  order: Order;
+  breakdown: PriceBreakdown;
+  clientSecret: string;
+};
+
+// apiRequest puts the response body after the status, e.g. '409: {"message":...}'
+function readErrorBody(error: Error): { message?: string; code?: string; breakdown?: PriceBreakdown } {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+  } catch {
+    return {};
+  }
+}
+
+function CheckoutForm({ breakdown }: { breakdown: PriceBreakdown }) {
   const stripe = useStripe();
   const elements = useElements();
   const [isProcessing, setIsProcessing] = useState(false);
   const [paymentError, setPaymentError] = useState<string | null>(null);
-  const [shippingRates, setShippingRates] = useState<ShippingRate[]>([]);
-  const [selectedRate, setSelectedRate] = useState<ShippingRate | null>(null);
   const { toast } = useToast();
-  const { state: { total, items }, clearCart } = useCart();
+  const { clearCart } = useCart();
   const [, setLocation] = useLocation();
 
   const billingSchema = z.object({
@@ -51,63 +75,12 @@ function CheckoutForm() {
     mode: "onChange",
   });
 
-  // Load shipping rates on component mount
-  useEffect(() => {
-    const loadShippingRates = async () => {
-      try {
-        const response = await apiRequest("POST", "/api/shipping/calculate-rates", {
-          fromAddress: {
-            firstName: "Store",
-            lastName: "Admin",
-            address1: "1234 Store St",
-            city: "Napa",
-            state: "CA",
-            postalCode: "94559",
-            country: "US",
-            phone: "1234567890"
-          },
-          toAddress: {
-            firstName: "Customer",
-            lastName: "Name",
-            address1: "Customer Address",
-            city: "Customer City",
-            state: "CA",
-            postalCode: "90210",
-            country: "US",
-            phone: "1234567890"
-          },
-          parcelDetails: {
-            weight: 1.0,
-            length: 12.0,
-            width: 8.0,
-            height: 6.0
-          }
-        });
-
-        const rates = await response.json();
-        setShippingRates(rates);
-
-        if (rates.length > 0) {
-          setSelectedRate(rates[0]);
-        }
-      } catch (error: any) {
-        toast({
-          title: "Error Loading Shipping Rates",
-          description: error.message || "Failed to load shipping rates",
-          variant: "destructive",
-        });
-      }
-    };
-
-    loadShippingRates();
-  }, []);
-
   const handlePaymentChange = (event: any) => {
     setPaymentError(event.error ? event.error.message : null);
   };
 
   const handleSubmit = async (data: BillingForm) => {
-    if (!stripe || !elements || !selectedRate) {
+    if (!stripe || !elements) {
       return;
     }
 
@@ -115,7 +88,9 @@ function CheckoutForm() {
     setPaymentError(null);
 
     try {
-      const { error } = await stripe.confirmPayment({
+      // Card payments finish here; others redirect to return_url, which
+      // Stripe gives the same payment_intent parameter
+      const { error, paymentIntent } = await stripe.confirmPayment({
         elements,
         confirmParams: {
           return_url: `${window.location.origin}/order-confirmation`,
@@ -126,6 +101,7 @@ function CheckoutForm() {
             }
           },
         },
+        redirect: "if_required",
       });
 
       if (error) {
@@ -133,7 +109,7 @@ function CheckoutForm() {
       }
 
       clearCart();
-      setLocation('/order-confirmation');
+      setLocation(`/order-confirmation?payment_intent=${paymentIntent.id}`);
     } catch (err: any) {
       setPaymentError(err.message);
       toast({
@@ -149,36 +125,6 @@ function CheckoutForm() {
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
-        <div>
-          <h2 className="text-lg font-semibold mb-4">Shipping Method</h2>
-          <Card>
-            <CardContent className="pt-6">
-              <div className="space-y-4">
-                {shippingRates.map((rate) => (
-                  <div
-                    key={`${rate.carrier}-${rate.service}`}
-                    className={`p-4 border rounded-lg cursor-pointer flex items-center justify-between ${
-                      selectedRate?.service === rate.service ? 'border-primary bg-primary/5' : ''
-                    }`}
-                    onClick={() => setSelectedRate(rate)}
-                  >
-                    <div className="flex items-center space-x-4">
-                      <TruckIcon className="h-5 w-5" />
-                      <div>
-                        <p className="font-medium">{rate.carrier} - {rate.service}</p>
-                        <p className="text-sm text-muted-foreground">
-                          Estimated delivery: {rate.estimatedDays} days
-                        </p>
-                      </div>
-                    </div>
-                    <p className="font-semibold">${rate.rate.toFixed(2)}</p>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-
         <div>
           <h2 className="text-lg font-semibold mb-4">Payment Information</h2>
           <Card>
@@ -237,20 +183,7 @@ function CheckoutForm() {
                 </div>
               )}
 
-              <div className="pt-4 border-t">
-                <div className="flex justify-between text-sm mb-2">
-                  <span>Subtotal</span>
-                  <span>${total.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-sm mb-2">
-                  <span>Shipping</span>
-                  <span>${selectedRate?.rate.toFixed(2) || '0.00'}</span>
-                </div>
-                <div className="flex justify-between font-semibold text-lg">
-                  <span>Total</span>
-                  <span>${(total + (selectedRate?.rate || 0)).toFixed(2)}</span>
-                </div>
-              </div>
+              <PriceSummary breakdown={breakdown} />
 
               <Button 
                 type="submit" 
@@ -263,7 +196,7 @@ function CheckoutForm() {
                     Processing...
                   </>
                 ) : (
-                  `Pay $${(total + (selectedRate?.rate || 0)).toFixed(2)}`
+                  `Pay ${formatCents(breakdown.total)}`
                 )}
               </Button>
             </CardContent>
@@ -274,21 +207,196 @@ function CheckoutForm() {
   );
 }
 
+function PriceSummary({ breakdown }: { breakdown: PriceBreakdown }) {
+  return (
+    <div className="pt-4 border-t">
+      {breakdown.lines.map((line) => (
+        <div key={line.productId} className="flex justify-between text-sm mb-2">
+          <span>
+            {line.name} × {line.quantity}
+            {line.previousUnitPrice !== undefined && (
+              <span className="text-muted-foreground">
+                {" "}(was {formatCents(line.previousUnitPrice)}, now {formatCents(line.unitPrice)} each)
+              </span>
+            )}
+          </span>
+          <span>{formatCents(line.lineTotal)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between text-sm mb-2 pt-2 border-t">
+        <span>Subtotal</span>
+        <span>{formatCents(breakdown.subtotal)}</span>
+      </div>
+      {breakdown.discount > 0 && (
+        <div className="flex justify-between text-sm mb-2 text-green-600">
+          <span>Discount ({breakdown.discountCode})</span>
+          <span>-{formatCents(breakdown.discount)}</span>
+        </div>
+      )}
+      <div className="flex justify-between text-sm mb-2">
+        <span>Shipping ({breakdown.shippingCarrier} {breakdown.shippingService})</span>
+        <span>{formatCents(breakdown.shipping)}</span>
+      </div>
+      {breakdown.tax > 0 && (
+        <div className="flex justify-between text-sm mb-2">
+          <span>Sales tax ({(breakdown.taxRate * 100).toFixed(2)}%)</span>
+          <span>{formatCents(breakdown.tax)}</span>
+        </div>
+      )}
+      <div className="flex justify-between font-semibold text-lg">
+        <span>Total</span>
+        <span>{formatCents(breakdown.total)}</span>
+      </div>
+    </div>
+  );
+}
+
 export default function Checkout() {
-  const [clientSecret, setClientSecret] = useState<string>("");
-  const { state: { total, items } } = useCart();
+  const [shippingAddress, setShippingAddress] = useState<ShippingAddress | null>(null);
+  const [shippingRates, setShippingRates] = useState<ShippingQuote[]>([]);
+  const [selectedRate, setSelectedRate] = useState<ShippingQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [isCreatingOrder, setIsCreatingOrder] = useState(false);
+  const [createdOrder, setCreatedOrder] = useState<CreatedOrder | null>(null);
+  const [discountInput, setDiscountInput] = useState("");
+  const [discountCode, setDiscountCode] = useState<string | undefined>();
+  const [discountError, setDiscountError] = useState<string | null>(null);
+  const [breakdown, setBreakdown] = useState<PriceBreakdown | null>(null);
+  const [isPricing, setIsPricing] = useState(false);
+  const { toast } = useToast();
+  const { state: { items }, updatePrices } = useCart();
+
+  const orderItems = items.map((item) => ({ productId: item.id, quantity: item.quantity, unitPrice: item.price }));
+
+  // The cart keeps the prices products had when they were added. When the
+  // server's differ, the cart takes the new ones, which prices it again.
+  const applyBreakdown = (next: PriceBreakdown) => {
+    setBreakdown(next);
+    if (next.priceChanged) {
+      updatePrices(Object.fromEntries(next.lines.map((line) => [line.productId, (line.unitPrice / 100).toFixed(2)])));
+      toast({
+        title: "Prices Updated",
+        description: "Some prices have changed since you added them to your cart.",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!shippingAddress || !selectedRate || items.length === 0) {
+      setBreakdown(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsPricing(true);
+    apiRequest("POST", "/api/orders/price", {
+      items: orderItems,
+      shippingAddress,
+      shippingRate: { carrier: selectedRate.carrier, service: selectedRate.service },
+      discountCode,
+    })
+      .then((res) => res.json())
+      .then((data: PriceBreakdown) => {
+        if (!cancelled) {
+          applyBreakdown(data);
+        }
+      })
+      .catch((error: Error) => {
+        if (cancelled) {
+          return;
+        }
+        setBreakdown(null);
+        const body = readErrorBody(error);
+        if (body.code === "INVALID_DISCOUNT") {
+          setDiscountError(body.message ?? "That code can't be used");
+          setDiscountCode(undefined);
+        } else {
+          toast({
+            title: "Could Not Price Order",
+            description: body.message || error.message,
+            variant: "destructive",
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsPricing(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [shippingAddress, selectedRate, discountCode, items]);
+
+  const applyDiscount = () => {
+    setDiscountError(null);
+    setDiscountCode(discountInput.trim() || undefined);
+  };
 
-  // Create payment intent when component mounts
+  // The order is priced from the cart as it was when it was placed, so any
+  // change to the cart afterwards needs a new one
   useEffect(() => {
-    if (items.length > 0) {
-      apiRequest("POST", "/api/create-payment-intent", { amount: total })
-        .then((res) => res.json())
-        .then((data) => setClientSecret(data.clientSecret))
-        .catch((error) => {
-          console.error("Failed to create payment intent:", error);
-        });
+    setCreatedOrder(null);
+  }, [items]);
+
+  const loadShippingRates = async (address: ShippingAddress) => {
+    setShippingAddress(address);
+    setSelectedRate(null);
+    setCreatedOrder(null);
+    setIsQuoting(true);
+    try {
+      const response = await apiRequest("POST", "/api/shipping/quote", address);
+      const rates: ShippingQuote[] = await response.json();
+      setShippingRates(rates);
+
+      if (rates.length > 0) {
+        setSelectedRate(rates[0]);
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error Loading Shipping Rates",
+        description: error.message || "Failed to load shipping rates",
+        variant: "destructive",
+      });
+    } finally {
+      setIsQuoting(false);
+    }
+  };
+
+  const createOrder = async () => {
+    if (!shippingAddress || !selectedRate) {
+      return;
+    }
+
+    setIsCreatingOrder(true);
+    try {
+      const response = await apiRequest("POST", "/api/orders", {
+        items: orderItems,
+        shippingAddress,
+        shippingRate: { carrier: selectedRate.carrier, service: selectedRate.service },
+        discountCode,
+      });
+      setCreatedOrder(await response.json());
+    } catch (error: any) {
+      const body = readErrorBody(error);
+      if (body.code === "STALE_CART" && body.breakdown) {
+        applyBreakdown(body.breakdown);
+        return;
+      }
+      toast({
+        title: "Could Not Place Order",
+        description: body.message || error.message || "Please try again.",
+        variant: "destructive",
+      });
+      // Shipping options may have changed since they were quoted
+      if (error.message?.startsWith("409")) {
+        loadShippingRates(shippingAddress);
+      }
+    } finally {
+      setIsCreatingOrder(false);
     }
-  }, [total, items]);
+  };
 
   if (items.length === 0) {
     return (
@@ -309,14 +417,21 @@ export default function Checkout() {
     );
   }
 
-  if (!clientSecret) {
+  if (createdOrder) {
     return (
       <MainLayout>
         <div className="container mx-auto px-4 py-8">
           <div className="max-w-2xl mx-auto">
             <Card>
-              <CardContent className="flex justify-center p-4">
-                <Loader2 className="h-8 w-8 animate-spin" />
+              <CardContent>
+                <Elements stripe={stripePromise} options={{ 
+                  clientSecret: createdOrder.clientSecret,
+                  appearance: {
+                    theme: 'stripe',
+                  }
+                }}>
+                  <CheckoutForm breakdown={createdOrder.breakdown} />
+                </Elements>
               </CardContent>
             </Card>
           </div>
@@ -328,21 +443,100 @@ export default function Checkout() {
   return (
     <MainLayout>
       <div className="container mx-auto px-4 py-8">
-        <div className="max-w-2xl mx-auto">
-          <Card>
-            <CardContent>
-              <Elements stripe={stripePromise} options={{ 
-                clientSecret,
-                appearance: {
-                  theme: 'stripe',
-                }
-              }}>
-                <CheckoutForm />
-              </Elements>
-            </CardContent>
-          </Card>
+        <div className="max-w-2xl mx-auto space-y-6">
+          <div>
+            <h2 className="text-lg font-semibold mb-4">Shipping Address</h2>
+            <ShippingAddressForm onAddressValidated={loadShippingRates} />
+          </div>
+
+          {shippingAddress && (
+            <div>
+              <h2 className="text-lg font-semibold mb-4">Shipping Method</h2>
+              <Card>
+                <CardContent className="pt-6">
+                  {isQuoting ? (
+                    <div className="flex justify-center p-4">
+                      <Loader2 className="h-8 w-8 animate-spin" />
+                    </div>
+                  ) : shippingRates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No shipping options are available for this address.
+                    </p>
+                  ) : (
+                    <div className="space-y-4">
+                      {shippingRates.map((rate) => (
+                        <div
+                          key={`${rate.carrier}-${rate.service}`}
+                          className={`p-4 border rounded-lg cursor-pointer flex items-center justify-between ${
+                            selectedRate?.carrier === rate.carrier && selectedRate?.service === rate.service
+                              ? 'border-primary bg-primary/5'
+                              : ''
+                          }`}
+                          onClick={() => setSelectedRate(rate)}
+                        >
+                          <div className="flex items-center space-x-4">
+                            <TruckIcon className="h-5 w-5" />
+                            <div>
+                              <p className="font-medium">{rate.carrier} - {rate.service}</p>
+                              <p className="text-sm text-muted-foreground">
+                                Estimated delivery: {rate.estimatedDays} days
+                              </p>
+                            </div>
+                          </div>
+                          <p className="font-semibold">${rate.rate.toFixed(2)}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {selectedRate && (
+                    <div className="mt-6 space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="discount-code">Discount Code</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="discount-code"
+                            value={discountInput}
+                            onChange={(e) => setDiscountInput(e.target.value)}
+                            placeholder="Optional"
+                          />
+                          <Button variant="outline" onClick={applyDiscount} disabled={isPricing}>
+                            Apply
+                          </Button>
+                        </div>
+                        {discountError && <p className="text-sm text-red-500">{discountError}</p>}
+                      </div>
+
+                      {breakdown ? (
+                        <PriceSummary breakdown={breakdown} />
+                      ) : isPricing ? (
+                        <div className="flex justify-center p-4">
+                          <Loader2 className="h-6 w-6 animate-spin" />
+                        </div>
+                      ) : null}
+
+                      <Button
+                        className="w-full"
+                        onClick={createOrder}
+                        disabled={isCreatingOrder || isQuoting || isPricing || !breakdown}
+                      >
+                        {isCreatingOrder ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Placing Order...
+                          </>
+                        ) : (
+                          "Continue to Payment"
+                        )}
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
         </div>
       </div>
     </MainLayout>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+import { MainLayout } from "@/components/layouts/MainLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Link } from "wouter";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+
+export default function ConfirmEmail() {
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const confirm = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", `/api/account/email/confirm?token=${encodeURIComponent(token)}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+  });
+
+  useEffect(() => {
+    confirm.mutate();
+  }, []);
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-center mb-4">
+                {confirm.isSuccess ? (
+                  <CheckCircle className="w-16 h-16 text-green-500" />
+                ) : confirm.isError ? (
+                  <XCircle className="w-16 h-16 text-red-500" />
+                ) : (
+                  <Loader2 className="w-16 h-16 animate-spin" />
+                )}
+              </div>
+              <CardTitle className="text-center">
+                {confirm.isSuccess
+                  ? "Email Address Updated"
+                  : confirm.isError
+                    ? "Confirmation Failed"
+                    : "Confirming your new email..."}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              {confirm.isSuccess && (
+                <p className="text-muted-foreground">
+                  We'll use your new address for receipts, event updates and sign-in from now on.
+                </p>
+              )}
+              {confirm.isError && (
+                <p className="text-muted-foreground">
+                  This confirmation link is invalid or has expired. You can request a new one from
+                  your account settings.
+                </p>
+              )}
+              {!confirm.isPending && (
+                <Link href="/account#security">
+                  <Button className="w-full">Go to My Account</Button>
+                </Link>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
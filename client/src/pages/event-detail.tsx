@@ -0,0 +1,531 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { Calendar, CalendarPlus, CheckCircle, Clock, DollarSign, Loader2, MapPin, Users } from "lucide-react";
+import { MainLayout } from "@/components/layouts/MainLayout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { EventPaymentForm } from "@/components/forms/EventPaymentForm";
+import { ParticipantInfoForm } from "@/components/forms/ParticipantInfoForm";
+import { ManageRegistration } from "@/components/events/ManageRegistration";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { describeRefundPolicy } from "@shared/refund-policy";
+import { getGoogleCalendarUrl } from "@shared/calendar";
+import type { Event, ParticipantInfo, Registration, User } from "@shared/schema";
+
+type EventDetail = Omit<Event, "date"> & {
+  date: string;
+  remainingCapacity: number;
+  registration: Registration | null;
+  participantInfoComplete: boolean | null;
+  waitlistCount: number;
+  waitlistEntry: {
+    id: number;
+    status: "waiting" | "offered";
+    position: number | null;
+    offerExpiresAt: string | null;
+  } | null;
+};
+
+// Shown when the holder still owes a waiver signature or emergency contact,
+// e.g. after receiving a transferred registration
+function ParticipantInfoPrompt({ event, registration, user }: { event: EventDetail; registration: Registration; user: User }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const save = useMutation({
+    mutationFn: async (participant: ParticipantInfo) => {
+      const res = await apiRequest("PUT", `/api/registrations/${registration.id}/participant-info`, participant);
+      return res.json();
+    },
+    onSuccess: () => {
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${event.id}`] });
+      toast({
+        title: "Details saved",
+        description: "Thanks! You're all set for the hike.",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waivers/current"] });
+      toast({
+        title: "Could not save details",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm space-y-2 text-left">
+      <p>Please sign the waiver and add an emergency contact before the event.</p>
+      <Button size="sm" className="w-full" onClick={() => setOpen(true)}>
+        Complete My Details
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Waiver and Emergency Contact</DialogTitle>
+          </DialogHeader>
+          <ParticipantInfoForm user={user} submitLabel="Save Details" isPending={save.isPending} onSubmit={save.mutate} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+type RegistrationPanelProps = {
+  event: EventDetail;
+  user: User | null | undefined;
+  awaitingConfirmation: boolean;
+  onPaymentSubmitted: () => void;
+};
+
+function RegistrationPanel({ event, user, awaitingConfirmation, onPaymentSubmitted }: RegistrationPanelProps) {
+  const { toast } = useToast();
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  // Where the sign-up goes once the waiver and emergency details are filled in
+  const [signUpUrl, setSignUpUrl] = useState<string | null>(null);
+
+  const refreshEvent = () => queryClient.invalidateQueries({ queryKey: [`/api/events/${event.id}`] });
+
+  // Direct sign-ups and claimed waitlist offers answer with the same shape
+  const register = useMutation({
+    mutationFn: async ({ url, participant }: { url: string; participant?: ParticipantInfo }) => {
+      const res = await apiRequest("POST", url, { eventId: event.id, participant });
+      return res.json();
+    },
+    onSuccess: (data: { registration: Registration; clientSecret: string | null }) => {
+      setSignUpUrl(null);
+      refreshEvent();
+      if (data.clientSecret) {
+        setClientSecret(data.clientSecret);
+        return;
+      }
+      toast({
+        title: "You're registered!",
+        description: `We look forward to seeing you at ${event.title}.`,
+      });
+    },
+    onError: (error: Error) => {
+      // The waiver may have been replaced by a newer version in the meantime
+      queryClient.invalidateQueries({ queryKey: ["/api/waivers/current"] });
+      toast({
+        title: "Registration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const joinWaitlist = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${event.id}/waitlist`);
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshEvent();
+      toast({
+        title: "You're on the waitlist",
+        description: "We'll email you if a spot opens up.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not join waitlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const leaveWaitlist = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/events/${event.id}/waitlist`);
+      return res.json();
+    },
+    onSuccess: refreshEvent,
+    onError: (error: Error) => {
+      toast({
+        title: "Could not leave waitlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resend = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/resend-verification");
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Verification email sent",
+        description: data.message,
+      });
+    },
+  });
+
+  if (event.cancelledAt) {
+    return (
+      <p className="text-muted-foreground text-center">
+        This event has been cancelled. Anyone who paid has been refunded in full.
+      </p>
+    );
+  }
+
+  if (event.registration?.status === "confirmed") {
+    return (
+      <div className="space-y-2 text-center">
+        <CheckCircle className="w-12 h-12 text-green-500 mx-auto" />
+        <p className="font-medium">You're registered for this event</p>
+        {event.registration.amountPaid && (
+          <Badge variant="secondary">Paid ${parseFloat(event.registration.amountPaid).toFixed(2)}</Badge>
+        )}
+        {new Date(event.date) > new Date() && (
+          <>
+            {event.participantInfoComplete === false && user && (
+              <ParticipantInfoPrompt event={event} registration={event.registration} user={user} />
+            )}
+            <Link href="/account#tickets">
+              <Button className="w-full">View My Ticket</Button>
+            </Link>
+            <ManageRegistration event={event} registration={event.registration} />
+          </>
+        )}
+      </div>
+    );
+  }
+
+  if (event.registration?.status === "pending") {
+    if (awaitingConfirmation) {
+      return (
+        <div className="space-y-2 text-center">
+          <Loader2 className="w-8 h-8 animate-spin mx-auto" />
+          <p className="text-muted-foreground">Payment received. Confirming your registration...</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {event.registration.holdExpiresAt && (
+          <p className="text-sm text-muted-foreground">
+            Your spot is held until {format(new Date(event.registration.holdExpiresAt), "h:mm a")}.
+            Complete payment to confirm it.
+          </p>
+        )}
+        {clientSecret ? (
+          <EventPaymentForm
+            clientSecret={clientSecret}
+            amount={event.price}
+            returnUrl={`${window.location.origin}/events/${event.id}`}
+            onSubmitted={() => {
+              setClientSecret(null);
+              onPaymentSubmitted();
+            }}
+          />
+        ) : (
+          <Button
+            className="w-full"
+            onClick={() => register.mutate({ url: "/api/registrations" })}
+            disabled={register.isPending}
+          >
+            {register.isPending ? "Loading..." : "Complete Payment"}
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (new Date(event.date) < new Date()) {
+    return <p className="text-muted-foreground text-center">This event has already taken place.</p>;
+  }
+
+  if (!user) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-muted-foreground">Log in to register for this event or join its waitlist.</p>
+        <Link href="/login">
+          <Button className="w-full">Log In</Button>
+        </Link>
+        <p className="text-sm">
+          New here?{" "}
+          <Link href="/register" className="text-primary hover:underline">
+            Create an account
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  if (!user.isVerified) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-muted-foreground">
+          Please verify your email address before registering for events.
+        </p>
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => resend.mutate()}
+          disabled={resend.isPending}
+        >
+          {resend.isPending ? "Sending..." : "Resend Verification Email"}
+        </Button>
+      </div>
+    );
+  }
+
+  const participantDialog = (
+    <Dialog open={!!signUpUrl} onOpenChange={(open) => !open && setSignUpUrl(null)}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto text-left">
+        <DialogHeader>
+          <DialogTitle>Before You Register</DialogTitle>
+          <DialogDescription>
+            Every hiker signs our waiver and gives an emergency contact for {event.title}.
+          </DialogDescription>
+        </DialogHeader>
+        <ParticipantInfoForm
+          user={user}
+          submitLabel={event.price > 0 ? "Continue to Payment" : "Complete Registration"}
+          isPending={register.isPending}
+          onSubmit={(participant) => register.mutate({ url: signUpUrl!, participant })}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+
+  if (event.waitlistEntry?.status === "offered") {
+    return (
+      <div className="space-y-4 text-center">
+        <Clock className="w-10 h-10 text-primary mx-auto" />
+        <p className="font-medium">A spot has opened up for you!</p>
+        {event.waitlistEntry.offerExpiresAt && (
+          <p className="text-sm text-muted-foreground">
+            Claim it by {format(new Date(event.waitlistEntry.offerExpiresAt), "MMM d, h:mm a")} or it will
+            be offered to the next person in line.
+          </p>
+        )}
+        <Button
+          className="w-full"
+          onClick={() => setSignUpUrl(`/api/events/${event.id}/waitlist/claim`)}
+          disabled={register.isPending}
+        >
+          {register.isPending ? "Claiming..." : "Claim My Spot"}
+        </Button>
+        {participantDialog}
+        <Button
+          variant="ghost"
+          className="w-full"
+          onClick={() => leaveWaitlist.mutate()}
+          disabled={leaveWaitlist.isPending}
+        >
+          No thanks
+        </Button>
+      </div>
+    );
+  }
+
+  if (event.waitlistEntry?.status === "waiting") {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="font-medium">
+          {event.waitlistEntry.position
+            ? `You're #${event.waitlistEntry.position} on the waitlist`
+            : "You're on the waitlist"}
+        </p>
+        <p className="text-sm text-muted-foreground">We'll email you if a spot opens up.</p>
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => leaveWaitlist.mutate()}
+          disabled={leaveWaitlist.isPending}
+        >
+          {leaveWaitlist.isPending ? "Leaving..." : "Leave Waitlist"}
+        </Button>
+      </div>
+    );
+  }
+
+  // Freed spots go to people already waiting, so newcomers queue behind them
+  if (event.remainingCapacity === 0 || event.waitlistCount > 0) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-muted-foreground">
+          This event is full.
+          {event.waitlistCount > 0 && ` ${event.waitlistCount} waiting.`}
+        </p>
+        <Button className="w-full" onClick={() => joinWaitlist.mutate()} disabled={joinWaitlist.isPending}>
+          {joinWaitlist.isPending ? "Joining..." : "Join Waitlist"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Button className="w-full" onClick={() => setSignUpUrl("/api/registrations")} disabled={register.isPending}>
+        {register.isPending ? "Registering..." : "Register Now"}
+      </Button>
+      {participantDialog}
+    </>
+  );
+}
+
+export default function EventDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  // Stripe sends redirect-based payments back here with redirect_status set
+  const [awaitingConfirmation, setAwaitingConfirmation] = useState(
+    () => new URLSearchParams(window.location.search).get("redirect_status") === "succeeded"
+  );
+
+  const { data: event, isLoading, isError } = useQuery<EventDetail>({
+    queryKey: [`/api/events/${id}`],
+    // Poll until the payment webhook has confirmed the registration
+    refetchInterval: (query) =>
+      awaitingConfirmation && query.state.data?.registration?.status === "pending" ? 2000 : false,
+  });
+
+  const { data: user } = useQuery<User | null>({
+    queryKey: ["/api/auth/me"],
+  });
+
+  if (isLoading) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="animate-pulse space-y-4">
+            <div className="h-72 bg-muted rounded-lg" />
+            <div className="h-8 bg-muted rounded w-1/2" />
+            <div className="h-4 bg-muted rounded w-1/3" />
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (isError || !event) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto px-4 py-16 text-center space-y-4">
+          <h1 className="text-3xl font-bold">Event not found</h1>
+          <Link href="/events">
+            <Button>Browse Events</Button>
+          </Link>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto px-4 py-8">
+        <img
+          src={event.imageUrl}
+          alt={event.title}
+          className="w-full h-72 object-cover rounded-lg mb-8"
+        />
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-6">
+            <h1 className="text-4xl font-bold">{event.title}</h1>
+
+            <div className="space-y-3 text-muted-foreground">
+              <div className="flex items-center">
+                <Calendar className="mr-2 h-5 w-5" />
+                {format(new Date(event.date), "EEEE, MMMM d, yyyy 'at' h:mm a")}
+              </div>
+              <div className="flex items-center">
+                <MapPin className="mr-2 h-5 w-5" />
+                {event.location}
+              </div>
+              {!event.cancelledAt && new Date(event.date) > new Date() && (
+                <div className="flex items-center gap-3 text-sm">
+                  <CalendarPlus className="h-5 w-5" />
+                  <a href={`/api/events/${event.id}/calendar.ics`} download className="text-primary hover:underline">
+                    Add to calendar (.ics)
+                  </a>
+                  <a
+                    href={getGoogleCalendarUrl(event, window.location.href)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    Google Calendar
+                  </a>
+                </div>
+              )}
+            </div>
+
+            <p className="whitespace-pre-line">{event.description}</p>
+
+            <div className="space-y-2">
+              <h2 className="text-2xl font-semibold">Location</h2>
+              <iframe
+                title={`Map of ${event.location}`}
+                src={`https://maps.google.com/maps?q=${encodeURIComponent(event.location)}&output=embed`}
+                className="w-full h-80 rounded-lg border"
+                loading="lazy"
+              />
+              <a
+                href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(event.location)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-primary hover:underline"
+              >
+                Get directions
+              </a>
+            </div>
+          </div>
+
+          <div>
+            <Card className="sticky top-4">
+              <CardHeader>
+                <CardTitle>Registration</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center text-muted-foreground">
+                    <DollarSign className="mr-2 h-4 w-4" />
+                    Price
+                  </span>
+                  <span className="font-medium">{event.price > 0 ? `$${event.price}` : "Free"}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center text-muted-foreground">
+                    <Users className="mr-2 h-4 w-4" />
+                    Spots left
+                  </span>
+                  <span className="font-medium">
+                    {event.remainingCapacity} of {event.capacity}
+                  </span>
+                </div>
+                <RegistrationPanel
+                  event={event}
+                  user={user}
+                  awaitingConfirmation={awaitingConfirmation}
+                  onPaymentSubmitted={() => setAwaitingConfirmation(true)}
+                />
+                {event.price > 0 && (
+                  <div className="text-sm text-muted-foreground border-t pt-4 space-y-1">
+                    <p className="font-medium text-foreground">Cancellation policy</p>
+                    {describeRefundPolicy(event.refundPolicy).map((line) => (
+                      <p key={line}>{line}</p>
+                    ))}
+                    <p>You can also transfer your registration to another member.</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
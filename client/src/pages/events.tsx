@@ -1,11 +1,21 @@
 import { MainLayout } from "@/components/layouts/MainLayout";
 import { UpcomingEvents } from "@/components/sections/UpcomingEvents";
+import { CalendarPlus } from "lucide-react";
+
+// webcal:// makes the browser hand the feed to the calendar app as a subscription
+const PUBLIC_FEED_URL = `${window.location.origin.replace(/^https?:/, "webcal:")}/api/calendar/events.ics`;
 
 export default function Events() {
   return (
     <MainLayout>
       <div className="container mx-auto px-4 py-8">
-        <h1 className="text-4xl font-bold mb-8">Our Events</h1>
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h1 className="text-4xl font-bold">Our Events</h1>
+          <a href={PUBLIC_FEED_URL} className="flex items-center text-sm text-primary hover:underline">
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Subscribe in your calendar
+          </a>
+        </div>
         <UpcomingEvents />
       </div>
     </MainLayout>
@@ -9,8 +9,14 @@ import { z } from "zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
+import { startAuthentication, browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import { KeyRound } from "lucide-react";
+import { useState } from "react";
+import { CaptchaChallenge } from "@/components/forms/CaptchaChallenge";
+import { TwoFactorChallenge } from "@/components/forms/TwoFactorChallenge";
 import type { User } from "@shared/schema";
+import { hasAdminAccess } from "@shared/permissions";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -22,6 +28,10 @@ type LoginForm = z.infer<typeof loginSchema>;
 export default function Login() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  const [captchaRequired, setCaptchaRequired] = useState(false);
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
 
   // Check if user is already logged in
   const { data: user } = useQuery<User | null>({
@@ -30,7 +40,7 @@ export default function Login() {
 
   // Redirect if already logged in
   if (user) {
-    setLocation(user.isAdmin ? "/admin" : "/");
+    setLocation(hasAdminAccess(user) ? "/admin" : "/");
     return null;
   }
 
@@ -42,20 +52,41 @@ export default function Login() {
     },
   });
 
+  const onLoginSuccess = (data: { user: User }) => {
+    toast({
+      title: "Login successful!",
+      description: "Welcome back!",
+    });
+    // Update auth status
+    queryClient.setQueryData(["/api/auth/me"], data.user);
+    // Redirect based on user role
+    setLocation(hasAdminAccess(data.user) ? "/admin" : "/");
+  };
+
   const { mutate, isPending } = useMutation({
     mutationFn: async (data: LoginForm) => {
-      const res = await apiRequest("POST", "/api/auth/login", data);
-      return res.json();
+      // Read the error body ourselves so the server can ask for a CAPTCHA
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...data, captchaToken }),
+        credentials: "include",
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setCaptchaRequired(!!body.captchaRequired);
+        setCaptchaToken(null);
+        setFailedAttempts((count) => count + 1);
+        throw new Error(body.message || res.statusText);
+      }
+      return body;
     },
     onSuccess: (data) => {
-      toast({
-        title: "Login successful!",
-        description: "Welcome back!",
-      });
-      // Update auth status
-      queryClient.setQueryData(["/api/auth/me"], data.user);
-      // Redirect based on user role
-      setLocation(data.user.isAdmin ? "/admin" : "/");
+      if (data.twoFactorRequired) {
+        setTwoFactorRequired(true);
+        return;
+      }
+      onLoginSuccess(data);
     },
     onError: (error: Error) => {
       toast({
@@ -66,48 +97,94 @@ export default function Login() {
     },
   });
 
+  const passkeyLogin = useMutation({
+    mutationFn: async () => {
+      const optionsRes = await apiRequest("POST", "/api/auth/webauthn/authenticate/options");
+      const optionsJSON = await optionsRes.json();
+      const response = await startAuthentication({ optionsJSON });
+      const res = await apiRequest("POST", "/api/auth/webauthn/authenticate/verify", { response });
+      return res.json();
+    },
+    onSuccess: onLoginSuccess,
+    onError: (error: Error) => {
+      toast({
+        title: "Passkey sign-in failed",
+        description: error.message || "Please try again or use your password.",
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
     <MainLayout>
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-md mx-auto">
           <Card>
             <CardHeader>
-              <CardTitle>Login</CardTitle>
+              <CardTitle>{twoFactorRequired ? "Two-Factor Authentication" : "Login"}</CardTitle>
             </CardHeader>
             <CardContent>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit((data) => mutate(data))} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="username"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Username</FormLabel>
-                        <FormControl>
-                          <Input {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Password</FormLabel>
-                        <FormControl>
-                          <Input type="password" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+              {twoFactorRequired ? (
+                <TwoFactorChallenge
+                  onVerified={onLoginSuccess}
+                  onCancel={() => {
+                    setTwoFactorRequired(false);
+                    form.reset();
+                  }}
+                />
+              ) : (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((data) => mutate(data))} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Username</FormLabel>
+                          <FormControl>
+                            <Input {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {captchaRequired && <CaptchaChallenge key={failedAttempts} onChange={setCaptchaToken} />}
+                    <Button type="submit" className="w-full" disabled={isPending || (captchaRequired && !captchaToken)}>
+                      {isPending ? "Logging in..." : "Login"}
+                    </Button>
+                    {browserSupportsWebAuthn() && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => passkeyLogin.mutate()}
+                        disabled={passkeyLogin.isPending}
+                      >
+                        <KeyRound className="mr-2 h-4 w-4" />
+                        {passkeyLogin.isPending ? "Waiting for passkey..." : "Sign in with a passkey"}
+                      </Button>
                     )}
-                  />
-                  <Button type="submit" className="w-full" disabled={isPending}>
-                    {isPending ? "Logging in..." : "Login"}
-                  </Button>
-                </form>
-              </Form>
+                    <div className="text-center">
+                      <Link href="/forgot-password" className="text-sm text-muted-foreground hover:text-primary">
+                        Forgot your password?
+                      </Link>
+                    </div>
+                  </form>
+                </Form>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -1,28 +1,220 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layouts/MainLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Link } from "wouter";
-import { CheckCircle } from "lucide-react";
+import { AlertCircle, CheckCircle, Clock, Loader2, XCircle } from "lucide-react";
+import { useCart } from "@/hooks/use-cart";
+import type { Order, OrderItem, ShippingAddress } from "@shared/schema";
+
+type OrderItemDetail = OrderItem & { productName: string; imageUrl: string };
+
+type OrderDetails = {
+  order: Order;
+  items: OrderItemDetail[];
+  paymentStatus: string | null; // Stripe's status, only looked up while the order is pending
+};
+
+type Outcome = "paid" | "processing" | "failed" | "incomplete" | "cancelled";
+
+function getOutcome({ order, paymentStatus }: OrderDetails): Outcome {
+  if (order.status === "cancelled" || order.status === "refunded") {
+    return "cancelled";
+  }
+  if (order.status !== "pending") {
+    return "paid";
+  }
+  if (paymentStatus === "processing") {
+    return "processing";
+  }
+  if (paymentStatus === "requires_payment_method") {
+    return "failed";
+  }
+  return "incomplete";
+}
+
+const HEADINGS: Record<Outcome, { icon: JSX.Element; title: string }> = {
+  paid: { icon: <CheckCircle className="w-16 h-16 text-green-500" />, title: "Order Confirmed!" },
+  processing: { icon: <Clock className="w-16 h-16 text-amber-500" />, title: "Payment Processing" },
+  failed: { icon: <XCircle className="w-16 h-16 text-red-500" />, title: "Payment Failed" },
+  incomplete: { icon: <AlertCircle className="w-16 h-16 text-amber-500" />, title: "Payment Not Completed" },
+  cancelled: { icon: <XCircle className="w-16 h-16 text-muted-foreground" />, title: "Order Cancelled" },
+};
+
+function money(value: string | null): string {
+  return `$${parseFloat(value ?? "0").toFixed(2)}`;
+}
+
+function OrderSummary({ order, items }: OrderDetails) {
+  const address = order.shippingAddress as ShippingAddress;
+
+  return (
+    <div className="space-y-6 text-left">
+      <div className="flex justify-between items-center">
+        <span className="font-semibold">Order #{order.id}</span>
+        <Badge variant="outline" className="capitalize">{order.status}</Badge>
+      </div>
+
+      <div className="space-y-3">
+        {items.map((item) => (
+          <div key={item.id} className="flex items-center gap-4">
+            <img src={item.imageUrl} alt={item.productName} className="w-12 h-12 object-cover rounded" />
+            <div className="flex-1">
+              <p className="font-medium">{item.productName}</p>
+              <p className="text-sm text-muted-foreground">
+                {item.quantity} × {money(item.price)}
+              </p>
+            </div>
+            <span>${(parseFloat(item.price) * item.quantity).toFixed(2)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="pt-4 border-t space-y-2 text-sm">
+        {order.subtotal && (
+          <div className="flex justify-between">
+            <span>Subtotal</span>
+            <span>{money(order.subtotal)}</span>
+          </div>
+        )}
+        {order.discountAmount && parseFloat(order.discountAmount) > 0 && (
+          <div className="flex justify-between text-green-600">
+            <span>Discount ({order.discountCode})</span>
+            <span>-{money(order.discountAmount)}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span>
+            Shipping
+            {order.shippingCarrier && ` (${order.shippingCarrier} ${order.shippingService})`}
+          </span>
+          <span>{money(order.shippingCost)}</span>
+        </div>
+        {order.taxAmount && parseFloat(order.taxAmount) > 0 && (
+          <div className="flex justify-between">
+            <span>Sales tax</span>
+            <span>{money(order.taxAmount)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold text-lg">
+          <span>Total</span>
+          <span>{money(order.total)}</span>
+        </div>
+        {order.amountRefunded && (
+          <div className="flex justify-between text-muted-foreground">
+            <span>Refunded</span>
+            <span>{money(order.amountRefunded)}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="pt-4 border-t text-sm">
+        <p className="font-semibold mb-1">Shipping to</p>
+        <p>{address.firstName} {address.lastName}</p>
+        <p>{address.address1}</p>
+        {address.address2 && <p>{address.address2}</p>}
+        <p>{address.city}, {address.state} {address.postalCode}</p>
+        <p>{address.country}</p>
+      </div>
+    </div>
+  );
+}
 
 export default function OrderConfirmation() {
+  // Stripe appends payment_intent (and redirect_status) to the return_url
+  const paymentIntentId = new URLSearchParams(window.location.search).get("payment_intent");
+  const { clearCart } = useCart();
+
+  const { data, isLoading, isError } = useQuery<OrderDetails>({
+    queryKey: [`/api/orders/by-payment-intent/${paymentIntentId}`],
+    enabled: !!paymentIntentId,
+    // Bank payments can take a while to settle
+    refetchInterval: (query) =>
+      query.state.data && getOutcome(query.state.data) === "processing" ? 3000 : false,
+  });
+
+  const outcome = data ? getOutcome(data) : null;
+
+  useEffect(() => {
+    if (outcome === "paid" || outcome === "processing") {
+      clearCart();
+    }
+  }, [outcome]);
+
+  if (paymentIntentId && isLoading) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-2xl mx-auto">
+            <Card>
+              <CardContent className="flex justify-center p-8">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!data || !outcome || isError) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-2xl mx-auto">
+            <Card>
+              <CardContent className="p-8 text-center space-y-6">
+                <p className="text-muted-foreground">
+                  We couldn't find that order. If you were charged, your receipt email has the details.
+                </p>
+                <Link href="/shop">
+                  <Button>Continue Shopping</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  const heading = HEADINGS[outcome];
+
   return (
     <MainLayout>
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-2xl mx-auto">
           <Card>
             <CardHeader>
-              <div className="flex items-center justify-center mb-4">
-                <CheckCircle className="w-16 h-16 text-green-500" />
-              </div>
-              <CardTitle className="text-center">Order Confirmed!</CardTitle>
+              <div className="flex items-center justify-center mb-4">{heading.icon}</div>
+              <CardTitle className="text-center">{heading.title}</CardTitle>
             </CardHeader>
             <CardContent className="text-center">
               <p className="text-muted-foreground mb-6">
-                Thank you for your purchase. Your payment has been processed successfully.
+                {outcome === "paid" && "Thank you for your purchase. Your payment has been processed successfully."}
+                {outcome === "processing" &&
+                  "Your payment is being processed. This page will update once it clears; we'll hold your items until then."}
+                {outcome === "failed" &&
+                  `${data.order.paymentError ?? "Your payment was declined."} Your order hasn't been charged.`}
+                {outcome === "incomplete" && "Your payment wasn't completed, so your order hasn't been charged."}
+                {outcome === "cancelled" && "This order was cancelled. Any payment has been refunded."}
               </p>
-              <div className="flex flex-col gap-4">
+
+              <OrderSummary {...data} />
+
+              <div className="flex flex-col gap-4 mt-6">
+                {(outcome === "failed" || outcome === "incomplete") && (
+                  <Link href="/checkout">
+                    <Button className="w-full">Try Again</Button>
+                  </Link>
+                )}
                 <Link href="/shop">
-                  <Button className="w-full">
+                  <Button
+                    className="w-full"
+                    variant={outcome === "failed" || outcome === "incomplete" ? "outline" : "default"}
+                  >
                     Continue Shopping
                   </Button>
                 </Link>
@@ -9,11 +9,13 @@ import { insertUserSchema, type InsertUser } from "@shared/schema";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useLocation } from "wouter";
+import { useState } from "react";
+import { Link } from "wouter";
+import { MailCheck } from "lucide-react";
 
 export default function Register() {
   const { toast } = useToast();
-  const [, setLocation] = useLocation();
+  const [registeredEmail, setRegisteredEmail] = useState<string | null>(null);
 
   const form = useForm<InsertUser>({
     resolver: zodResolver(insertUserSchema),
@@ -28,12 +30,12 @@ export default function Register() {
     mutationFn: async (data: InsertUser) => {
       await apiRequest("POST", "/api/users", data);
     },
-    onSuccess: () => {
+    onSuccess: (_, data) => {
       toast({
         title: "Registration successful!",
         description: "Welcome to Jesus Walkers!",
       });
-      setLocation("/");
+      setRegisteredEmail(data.email);
     },
     onError: (error: Error) => {
       toast({
@@ -44,6 +46,34 @@ export default function Register() {
     },
   });
 
+  if (registeredEmail) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-md mx-auto">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-center mb-4">
+                  <MailCheck className="w-16 h-16 text-primary" />
+                </div>
+                <CardTitle className="text-center">Check your email</CardTitle>
+              </CardHeader>
+              <CardContent className="text-center space-y-6">
+                <p className="text-muted-foreground">
+                  We sent a verification link to <strong>{registeredEmail}</strong>.
+                  Please confirm your address before registering for events or checking out.
+                </p>
+                <Link href="/login">
+                  <Button className="w-full">Continue to Login</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
   return (
     <MainLayout>
       <div className="container mx-auto px-4 py-8">
@@ -54,9 +54,9 @@ export default function Shop() {
                 <Button 
                   className="w-full" 
                   onClick={() => addItem(product)}
-                  disabled={product.stock <= 0}
+                  disabled={product.stock - product.reserved <= 0}
                 >
-                  {product.stock > 0 ? 'Add to Cart' : 'Out of Stock'}
+                  {product.stock - product.reserved > 0 ? 'Add to Cart' : 'Out of Stock'}
                 </Button>
               </CardFooter>
             </Card>
@@ -0,0 +1,103 @@
+import { useEffect } from "react";
+import { MainLayout } from "@/components/layouts/MainLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Link } from "wouter";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+
+export default function VerifyEmail() {
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const verify = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", `/api/auth/verify?token=${encodeURIComponent(token)}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+  });
+
+  const resend = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/resend-verification");
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Verification email sent",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not resend email",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    verify.mutate();
+  }, []);
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-center mb-4">
+                {verify.isSuccess ? (
+                  <CheckCircle className="w-16 h-16 text-green-500" />
+                ) : verify.isError ? (
+                  <XCircle className="w-16 h-16 text-red-500" />
+                ) : (
+                  <Loader2 className="w-16 h-16 animate-spin" />
+                )}
+              </div>
+              <CardTitle className="text-center">
+                {verify.isSuccess
+                  ? "Email Verified!"
+                  : verify.isError
+                    ? "Verification Failed"
+                    : "Verifying your email..."}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              {verify.isSuccess && (
+                <>
+                  <p className="text-muted-foreground">
+                    Thanks for confirming your address. You can now register for events and shop.
+                  </p>
+                  <Link href="/events">
+                    <Button className="w-full">Browse Events</Button>
+                  </Link>
+                </>
+              )}
+              {verify.isError && (
+                <>
+                  <p className="text-muted-foreground">
+                    This verification link is invalid or has expired. Log in and request a new one.
+                  </p>
+                  <Button
+                    className="w-full"
+                    onClick={() => resend.mutate()}
+                    disabled={resend.isPending}
+                  >
+                    {resend.isPending ? "Sending..." : "Resend Verification Email"}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,131 @@
+// Replays the Stripe webhook fixtures in scripts/fixtures/stripe against a
+// running dev server. Each payload is signed locally with
+// STRIPE_WEBHOOK_SECRET, so nothing is sent to Stripe.
+//
+//   npm run stripe:replay -- --payment-intent pi_123 --order 42 --amount 2599 \
+//     payment_intent.succeeded charge.refunded
+//
+// With no fixture names every fixture is sent, in lifecycle order. Event ids
+// are derived from the fixture and payment intent, so running the same replay
+// twice exercises the duplicate-delivery path; pass --fresh for new ids.
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import Stripe from "stripe";
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "stripe");
+
+// The order a payment's events usually arrive in; used when replaying everything
+const LIFECYCLE = [
+  "payment_intent.payment_failed",
+  "payment_intent.succeeded",
+  "charge.dispute.created",
+  "charge.dispute.closed",
+  "charge.refunded",
+];
+
+interface ReplayOptions {
+  url: string;
+  paymentIntent: string;
+  orderId: string;
+  amount: number;
+  fresh: boolean;
+  fixtures: string[];
+}
+
+function parseArgs(args: string[]): ReplayOptions {
+  const options: ReplayOptions = {
+    url: "http://localhost:5000/api/webhooks/stripe",
+    paymentIntent: "pi_replay",
+    orderId: "0",
+    amount: 1000,
+    fresh: false,
+    fixtures: [],
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case "--url":
+        options.url = args[++i];
+        break;
+      case "--payment-intent":
+        options.paymentIntent = args[++i];
+        break;
+      case "--order":
+        options.orderId = args[++i];
+        break;
+      case "--amount":
+        options.amount = parseInt(args[++i], 10);
+        break;
+      case "--fresh":
+        options.fresh = true;
+        break;
+      default:
+        if (arg.startsWith("--")) {
+          throw new Error(`Unknown option ${arg}`);
+        }
+        options.fixtures.push(arg.replace(/\.json$/, ""));
+    }
+  }
+
+  if (!Number.isInteger(options.amount) || options.amount < 0) {
+    throw new Error("--amount must be a whole number of cents");
+  }
+  return options;
+}
+
+function rank(name: string): number {
+  const index = LIFECYCLE.indexOf(name);
+  return index === -1 ? LIFECYCLE.length : index;
+}
+
+function renderFixture(template: string, name: string, options: ReplayOptions): string {
+  const suffix = options.fresh ? `_${Date.now()}` : "";
+  const eventId = `evt_replay_${name.replace(/\W/g, "_")}_${options.paymentIntent}${suffix}`;
+  return template
+    .replace(/"\{\{amount\}\}"/g, String(options.amount))
+    .replace(/\{\{event_id\}\}/g, eventId)
+    .replace(/\{\{payment_intent\}\}/g, options.paymentIntent)
+    .replace(/\{\{order_id\}\}/g, options.orderId);
+}
+
+async function main() {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("Set STRIPE_WEBHOOK_SECRET to the same value the server uses");
+  }
+
+  const options = parseArgs(process.argv.slice(2));
+  const available = (await readdir(FIXTURE_DIR))
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.replace(/\.json$/, ""))
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  const selected = options.fixtures.length > 0 ? options.fixtures : available;
+
+  const unknown = selected.filter((name) => !available.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`No fixture named ${unknown.join(", ")}. Available: ${available.join(", ")}`);
+  }
+
+  // Only used to sign payloads; the key is never sent anywhere
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "sk_test_replay");
+
+  for (const name of selected) {
+    const template = await readFile(path.join(FIXTURE_DIR, `${name}.json`), "utf8");
+    const payload = renderFixture(template, name, options);
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+    const response = await fetch(options.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+      body: payload,
+    });
+    console.log(`${name}: ${response.status} ${await response.text()}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -1,8 +1,12 @@
 
 import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
-import connectPgSimple from "connect-pg-simple";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { startRegistrationHoldSweeper } from "./services/registration-payments";
+import { startOrderReservationSweeper } from "./services/order-payments";
+import { startWaitlistSweeper } from "./services/event-waitlist";
+import { startSeriesMaterializer } from "./services/event-series";
 import { setupVite, serveStatic, log } from "./vite";
 
 // Check required environment variables
@@ -18,19 +22,24 @@ for (const envVar of requiredEnvVars) {
   }
 }
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody: unknown;
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Webhook signatures are computed over the exact bytes received
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
-const PgSession = connectPgSimple(session);
 app.use(
   session({
-    store: new PgSession({
-      conObject: {
-        connectionString: process.env.DATABASE_URL,
-      },
-      createTableIfMissing: true,
-    }),
+    store: storage.sessionStore,
     secret: process.env.SESSION_SECRET || "your-secret-key",
     resave: false,
     saveUninitialized: false,
@@ -41,6 +50,19 @@ app.use(
   })
 );
 
+// Responses that are nothing but secrets (TOTP seeds, recovery codes, private
+// feed links, personal data exports) are logged without their body
+const UNLOGGED_BODY_PATHS = [
+  "/api/auth/2fa/setup",
+  "/api/auth/2fa/enable",
+  "/api/auth/2fa/recovery-codes",
+  "/api/account/calendar-feed",
+  "/api/account/export",
+];
+
+// Fields masked wherever they appear in a logged body
+const REDACTED_FIELDS = new Set(["secret", "otpauthUrl", "qrCodeDataUrl", "recoveryCodes", "clientSecret", "token"]);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -56,8 +78,10 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+      if (capturedJsonResponse && !UNLOGGED_BODY_PATHS.some((prefix) => path.startsWith(prefix))) {
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, (key, value) =>
+          REDACTED_FIELDS.has(key) ? "[redacted]" : value
+        )}`;
       }
 
       if (logLine.length > 80) {
@@ -73,6 +97,10 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  startRegistrationHoldSweeper();
+  startOrderReservationSweeper();
+  startWaitlistSweeper();
+  startSeriesMaterializer();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -1,160 +1,2104 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertUserSchema, insertEventSchema, insertRegistrationSchema, insertWaitlistSchema, insertProductSchema, shippingAddressSchema } from "@shared/schema";
+import { storage, type ParticipantRecord } from "./storage";
+import { insertUserSchema, insertEventSchema, updateEventRequestSchema, cancelEventRequestSchema, insertEventSeriesSchema, updateEventSeriesSchema, registrationRequestSchema, waitlistClaimSchema, participantInfoSchema, insertWaiverSchema, registrationTransferSchema, checkInBatchSchema, insertWaitlistSchema, insertProductSchema, shippingAddressSchema, createOrderRequestSchema, stockAdjustmentSchema, orderReturnSchema } from "@shared/schema";
 import { z } from "zod";
-import Stripe from "stripe";
 import { shippingService } from "./services/shipping";
+import { stripe, fromCents } from "./services/stripe";
+import { priceOrder, toOrderAmounts, type PricingResult } from "./services/pricing";
+import { ORDER_HOLD_MS, createOrderPayment, cancelOrder, handleOrderPaymentSucceeded } from "./services/order-payments";
+import { handleStripeEvent } from "./services/stripe-webhooks";
+import {
+  REGISTRATION_HOLD_MS,
+  createRegistrationPayment,
+  refundCancelledRegistration,
+  cancelEventAndRefund,
+  settleCancelledRegistrations,
+} from "./services/registration-payments";
+import { materializeSeries, syncSeriesOccurrences } from "./services/event-series";
+import { describeEventChanges, notifyEventCancelled, notifyEventChanged } from "./services/event-notifications";
+import { createTicket, renderTicketQrCode, sendTicket, verifyTicket } from "./services/tickets";
+import { renderRosterPdf } from "./services/roster-pdf";
+import { buildCalendar } from "./services/ical";
+import { saveImageUpload, MAX_IMAGE_BYTES, UPLOAD_DIR, UPLOAD_URL_PREFIX } from "./services/uploads";
+import { describeRecurrence } from "@shared/recurrence";
+import { promoteFromWaitlist } from "./services/event-waitlist";
+import type Stripe from "stripe";
+import { hashPassword, verifyPassword } from "./services/password";
+import { signToken, verifyToken } from "./services/tokens";
+import { mailService } from "./services/mail";
+import { RateLimiter } from "./services/rate-limit";
+import { webAuthnService, getRelyingParty } from "./services/webauthn";
+import { loginThrottle, LOCKOUT_THRESHOLD, LOCKOUT_DURATION_MS } from "./services/login-throttle";
+import { verifyCaptcha } from "./services/recaptcha";
+import { buildDataExport } from "./services/privacy";
+import {
+  securityPolicySchema,
+  updateProfileSchema,
+  changeEmailSchema,
+  changePasswordSchema,
+  type User,
+  type Event,
+  type ParticipantInfo,
+  type SecurityPolicy,
+} from "@shared/schema";
+import QRCode from "qrcode";
+import {
+  generateTotpSecret,
+  getOtpauthUrl,
+  verifyTotp,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from "./services/totp";
+import { hasPermission, hasAdminAccess, ROLE_NAMES, type Permission, type Role } from "@shared/permissions";
+import { createHash, randomBytes } from "crypto";
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  console.warn("Warning: Missing STRIPE_SECRET_KEY. Payment features will be disabled.");
-  process.env.STRIPE_SECRET_KEY = '';
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+    webauthnChallenge: string;
+    // Device details shown on the "Active sessions" page
+    userAgent: string;
+    ip: string;
+    createdAt: number;
+    lastSeenAt: number;
+    // Set after a correct password for accounts with 2FA, until the code is checked
+    pendingTwoFactor: { userId: number; expiresAt: number; attempts: number };
+    // Secret being enrolled, kept server-side until the first code confirms it
+    pendingTotpSecret: string;
+  }
+}
+
+// Middleware to check if user is authenticated and holds the given permission
+const requirePermission = (permission: Permission) => async (req: any, res: any, next: any) => {
+  if (!req.session?.userId) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const user = await storage.getUser(req.session.userId);
+  if (!hasPermission(user, permission)) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+
+  if (!user!.totpEnabledAt && (await getSecurityPolicy()).requireAdminTwoFactor) {
+    return res.status(403).json({
+      message: "Two-factor authentication is required for admin accounts",
+      code: "TWO_FACTOR_REQUIRED",
+    });
+  }
+
+  next();
+};
+
+// Middleware to check if user is authenticated
+const requireAuth = (req: any, res: any, next: any) => {
+  if (!req.session?.userId) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  next();
+};
+
+// Middleware to check if user is authenticated and has verified their email
+const requireVerified = async (req: any, res: any, next: any) => {
+  if (!req.session?.userId) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const user = await storage.getUser(req.session.userId);
+  if (!user?.isVerified) {
+    return res.status(403).json({
+      message: "Please verify your email address before continuing",
+      code: "EMAIL_NOT_VERIFIED",
+    });
+  }
+
+  next();
+};
+
+const EMAIL_VERIFICATION_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+// At most 3 verification emails per account every 15 minutes
+const verificationEmailLimiter = new RateLimiter(3, 15 * 60 * 1000);
+
+// At most 10 resend requests per client every 15 minutes, whatever address
+const verificationResendIpLimiter = new RateLimiter(10, 15 * 60 * 1000);
+
+const EMAIL_CHANGE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+const PASSWORD_RESET_TTL = 60 * 60 * 1000; // 1 hour
+
+// At most 5 reset requests per address or client every hour
+const passwordResetLimiter = new RateLimiter(5, 60 * 60 * 1000);
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+const SECURITY_POLICY_KEY = "security_policy";
+const DEFAULT_SECURITY_POLICY: SecurityPolicy = { requireAdminTwoFactor: false };
+
+async function getSecurityPolicy(): Promise<SecurityPolicy> {
+  return (await storage.getSetting<SecurityPolicy>(SECURITY_POLICY_KEY)) || DEFAULT_SECURITY_POLICY;
+}
+
+const TWO_FACTOR_LOGIN_TTL = 5 * 60 * 1000; // 5 minutes
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+// Strips credentials and secrets before a user row leaves the server
+function toPublicUser(user: User) {
+  const { password, totpSecret, totpLastUsedStep, calendarFeedToken, ...publicUser } = user;
+  return publicUser;
+}
+
+const LAST_SEEN_UPDATE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+// Starts a fresh session for the user, discarding any pre-login session id
+function establishSession(req: Request, userId: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) {
+        return reject(err);
+      }
+
+      const now = Date.now();
+      req.session.userId = userId;
+      req.session.userAgent = req.get("user-agent") || "";
+      req.session.ip = req.ip || "";
+      req.session.createdAt = now;
+      req.session.lastSeenAt = now;
+      resolve();
+    });
+  });
+}
+
+// Session ids are bearer secrets, so clients only ever see a digest of them
+function sessionHandle(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+function getBaseUrl(req: Request): string {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+async function sendVerificationEmail(req: Request, user: User) {
+  const token = signToken(
+    { purpose: "verify-email", userId: user.id, email: user.email },
+    EMAIL_VERIFICATION_TTL
+  );
+  const verifyUrl = `${getBaseUrl(req)}/verify-email?token=${encodeURIComponent(token)}`;
+  await mailService.sendVerificationEmail(user.email, user.username, verifyUrl);
+}
+
+// At most 5 data exports per account every hour
+const dataExportLimiter = new RateLimiter(5, 60 * 60 * 1000);
+
+const PRIVACY_AUDIT_LOG_LIMIT = 200;
+
+// Paid orders still need the shipping address until they go out
+async function hasUnshippedOrders(userId: number): Promise<boolean> {
+  const orders = await storage.getUserOrders(userId);
+  return orders.some((order) => order.status === "paid");
+}
+
+// Replaces the password with an unguessable hash so the account can never sign in again
+async function anonymizeAccount(userId: number) {
+  const { summary, cancelledRegistrations, withdrawnOfferEventIds } = await storage.anonymizeUser(
+    userId,
+    await hashPassword(randomBytes(32).toString("base64url"))
+  );
+  await storage.destroyUserSessions(userId);
+  const registrationsRefunded = await settleCancelledRegistrations(cancelledRegistrations);
+  for (const eventId of Array.from(new Set(withdrawnOfferEventIds))) {
+    await promoteFromWaitlist(eventId);
+  }
+  return { ...summary, registrationsRefunded };
+}
+
+// Turns what the member filled in into what is stored with the registration,
+// as long as they signed the waiver currently in force
+async function checkParticipantInfo(
+  info: ParticipantInfo,
+  req: Request
+): Promise<{ participant: ParticipantRecord } | { error: { status: number; body: object } }> {
+  const waiver = await storage.getCurrentWaiver();
+  if (waiver && info.waiverId !== waiver.id) {
+    return {
+      error: {
+        status: 409,
+        body: { message: "The waiver has been updated. Please review and sign the current version.", waiver },
+      },
+    };
+  }
+  if (waiver && !info.signature) {
+    return { error: { status: 400, body: { message: "Please sign the waiver by typing your full name" } } };
+  }
+
+  const participant: ParticipantRecord = {
+    acceptance: waiver ? { waiverId: waiver.id, signature: info.signature!, ipAddress: req.ip || null } : null,
+    emergencyInfo: {
+      emergencyContactName: info.emergencyContactName,
+      emergencyContactPhone: info.emergencyContactPhone,
+      medicalNotes: info.medicalNotes || null,
+    },
+  };
+  return { participant };
+}
+
+// Creates the registration within capacity and, for paid events, the payment
+// that will confirm it. Used for direct sign-ups and for claimed waitlist offers.
+async function registerForEvent(
+  user: User,
+  event: Event,
+  info: ParticipantInfo | undefined,
+  req: Request,
+  waitlistEntryId?: number
+) {
+  if (!info) {
+    return { status: 400, body: { message: "Please sign the waiver and add an emergency contact" } };
+  }
+  const checked = await checkParticipantInfo(info, req);
+  if ("error" in checked) {
+    return checked.error;
+  }
+
+  // Paid events hold the spot as pending until the payment webhook confirms it
+  const result = await storage.createRegistrationWithinCapacity(
+    event.price > 0
+      ? { userId: user.id, eventId: event.id, status: "pending", holdExpiresAt: new Date(Date.now() + REGISTRATION_HOLD_MS) }
+      : { userId: user.id, eventId: event.id, status: "confirmed" },
+    checked.participant,
+    waitlistEntryId
+  );
+  switch (result.status) {
+    case "full":
+      return { status: 400, body: { message: "Event is at full capacity", waitlistAvailable: true } };
+    case "duplicate":
+      return { status: 409, body: { message: "You are already registered for this event" } };
+    case "offer_unavailable":
+      return { status: 409, body: { message: "This waitlist offer has expired" } };
+  }
+
+  const { registration } = result;
+  if (event.price <= 0) {
+    await sendTicket(registration, getBaseUrl(req));
+    return { status: 201, body: { registration, clientSecret: null } };
+  }
+
+  try {
+    const paymentIntent = await createRegistrationPayment(registration, event, user);
+    return {
+      status: 201,
+      body: {
+        registration: { ...registration, paymentIntentId: paymentIntent.id },
+        clientSecret: paymentIntent.client_secret,
+      },
+    };
+  } catch (error) {
+    await storage.expireRegistration(registration.id);
+    throw error;
+  }
+}
+
+function sendCalendar(res: Response, filename: string, calendar: string) {
+  res.set("Content-Disposition", `inline; filename="${filename}"`);
+  res.type("text/calendar; charset=utf-8").send(calendar);
+}
+
+function sendLoginThrottled(res: Response, user: User | undefined, retryAfterMs: number) {
+  const locked = !!user?.lockedUntil && user.lockedUntil.getTime() > Date.now();
+  res.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+  return res.status(locked ? 423 : 429).json({
+    message: locked
+      ? "This account is temporarily locked after too many failed attempts. Please try again later or contact us."
+      : "Too many login attempts. Please wait before trying again.",
+    retryAfterMs,
+  });
+}
+
+// Re-checks the password of a signed-in member before a sensitive change.
+// Failures count toward the same throttle and lockout as logging in, so a
+// hijacked session can't be used to guess the password. Responds and returns
+// false unless the password is right.
+async function checkPasswordThrottled(req: Request, res: Response, user: User): Promise<boolean> {
+  const ip = req.ip || "unknown";
+  const check = loginThrottle.check(ip, user);
+  if (!check.allowed) {
+    sendLoginThrottled(res, user, check.retryAfterMs);
+    return false;
+  }
+
+  const password = typeof req.body?.password === "string" ? req.body.password : "";
+  if (!(await verifyPassword(password, user.password)).valid) {
+    loginThrottle.recordIpFailure(ip);
+    const updatedUser = await storage.recordFailedLogin(
+      user.id,
+      LOCKOUT_THRESHOLD,
+      new Date(Date.now() + LOCKOUT_DURATION_MS)
+    );
+    if (updatedUser.lockedUntil && updatedUser.lockedUntil.getTime() > Date.now()) {
+      sendLoginThrottled(res, updatedUser, updatedUser.lockedUntil.getTime() - Date.now());
+    } else {
+      res.status(400).json({ message: "Incorrect password" });
+    }
+    return false;
+  }
+
+  if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+    await storage.resetFailedLogins(user.id);
+  }
+  return true;
+}
+
+// Responds for every pricing outcome except a successful one
+function sendPricingError(res: Response, result: Exclude<PricingResult, { status: "priced" }>) {
+  switch (result.status) {
+    case "unavailable":
+      return res.status(400).json({
+        message: "Some items in your cart are no longer available",
+        productIds: result.productIds,
+      });
+    case "out_of_stock":
+      return res.status(409).json({
+        message: `Not enough stock for ${result.products.map((product) => product.name).join(", ")}`,
+        productIds: result.products.map((product) => product.id),
+      });
+    case "invalid_discount":
+      return res.status(400).json({ message: result.message, code: "INVALID_DISCOUNT" });
+    case "rate_unavailable":
+      return res.status(409).json({
+        message: "The selected shipping option is no longer available. Please choose another.",
+        rates: result.rates,
+      });
+  }
+}
+
+async function sendEmailChangeEmail(req: Request, user: User, email: string) {
+  const token = signToken({ purpose: "change-email", userId: user.id, email }, EMAIL_CHANGE_TTL);
+  const confirmUrl = `${getBaseUrl(req)}/account/confirm-email?token=${encodeURIComponent(token)}`;
+  await mailService.sendEmailChangeEmail(email, user.username, confirmUrl);
 }
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2023-10-16",
-});
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Keep session activity fresh without writing to the store on every request
+  app.use((req, _res, next) => {
+    const now = Date.now();
+    if (req.session?.userId && now - (req.session.lastSeenAt || 0) > LAST_SEEN_UPDATE_INTERVAL) {
+      req.session.lastSeenAt = now;
+      req.session.ip = req.ip || "";
+    }
+    next();
+  });
+
+  // Uploaded images have random names, so they can be cached for a long time
+  app.use(UPLOAD_URL_PREFIX, express.static(UPLOAD_DIR, { maxAge: "30d" }));
+
+  // Auth routes
+  app.post("/api/auth/login", async (req, res) => {
+    const { username, password } = req.body;
+    if (typeof username !== "string" || typeof password !== "string") {
+      return res.status(400).json({ message: "Username and password are required" });
+    }
+
+    try {
+      const ip = req.ip || "unknown";
+      const user = await storage.getUserByUsername(username);
+
+      const check = loginThrottle.check(ip, user);
+      if (!check.allowed) {
+        return sendLoginThrottled(res, user, check.retryAfterMs);
+      }
+
+      if (check.captchaRequired && !(await verifyCaptcha(req.body.captchaToken, ip))) {
+        return res.status(400).json({
+          message: "Please complete the CAPTCHA challenge",
+          captchaRequired: true,
+        });
+      }
+
+      const { valid, needsRehash } = user
+        ? await verifyPassword(password, user.password)
+        : { valid: false, needsRehash: false };
+
+      if (!user || !valid) {
+        const ipFailures = loginThrottle.recordIpFailure(ip);
+        const updatedUser = user
+          ? await storage.recordFailedLogin(user.id, LOCKOUT_THRESHOLD, new Date(Date.now() + LOCKOUT_DURATION_MS))
+          : undefined;
+
+        return res.status(401).json({
+          message: "Invalid credentials",
+          captchaRequired: loginThrottle.needsCaptcha(
+            Math.max(ipFailures, updatedUser?.failedLoginAttempts || 0)
+          ),
+        });
+      }
+
+      // Upgrade legacy plaintext rows and hashes made with an older cost
+      if (needsRehash) {
+        await storage.updateUserPassword(user.id, await hashPassword(password));
+      }
+
+      // With two-factor on, the failure count carries into the code step and
+      // is only cleared once a code is accepted, so logging in again with the
+      // password doesn't buy fresh guesses
+      if (user.totpEnabledAt) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL,
+          attempts: 0,
+        };
+        return res.json({ twoFactorRequired: true });
+      }
+
+      if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+        await storage.resetFailedLogins(user.id);
+      }
+
+      await establishSession(req, user.id);
+      res.json({ user: toPublicUser(user) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to login" });
+    }
+  });
+
+  // Two-factor authentication routes
+  app.post("/api/auth/2fa/verify", async (req, res) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Your sign-in has expired. Please log in again." });
+    }
+
+    try {
+      const ip = req.ip || "unknown";
+      const user = await storage.getUser(pending.userId);
+      if (!user?.totpSecret) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please log in again." });
+      }
+
+      const check = loginThrottle.check(ip, user);
+      if (!check.allowed) {
+        return sendLoginThrottled(res, user, check.retryAfterMs);
+      }
+
+      const { code, recoveryCode } = req.body;
+      let verified = false;
+      if (typeof code === "string") {
+        const step = verifyTotp(user.totpSecret, code);
+        verified = step !== null && (await storage.recordTotpStep(user.id, step));
+      } else if (typeof recoveryCode === "string") {
+        verified = await storage.consumeRecoveryCode(user.id, hashRecoveryCode(recoveryCode));
+      }
+
+      if (!verified) {
+        // Wrong codes count against the account like wrong passwords, so the
+        // lockout applies however many times the password step is repeated
+        loginThrottle.recordIpFailure(ip);
+        const updatedUser = await storage.recordFailedLogin(
+          user.id,
+          LOCKOUT_THRESHOLD,
+          new Date(Date.now() + LOCKOUT_DURATION_MS)
+        );
+        pending.attempts++;
+        if (updatedUser.lockedUntil && updatedUser.lockedUntil.getTime() > Date.now()) {
+          delete req.session.pendingTwoFactor;
+          return sendLoginThrottled(res, updatedUser, updatedUser.lockedUntil.getTime() - Date.now());
+        }
+        if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many incorrect codes. Please log in again." });
+        }
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+        await storage.resetFailedLogins(user.id);
+      }
+
+      await establishSession(req, user.id);
+      res.json({ user: toPublicUser(user) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify authentication code" });
+    }
+  });
+
+  app.get("/api/auth/2fa/status", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const policy = await getSecurityPolicy();
+      res.json({
+        enabled: !!user.totpEnabledAt,
+        enabledAt: user.totpEnabledAt,
+        recoveryCodesRemaining: user.totpEnabledAt ? await storage.countUnusedRecoveryCodes(user.id) : 0,
+        required: policy.requireAdminTwoFactor && hasAdminAccess(user),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  app.post("/api/auth/2fa/setup", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      const otpauthUrl = getOtpauthUrl(secret, user.username);
+      req.session.pendingTotpSecret = secret;
+
+      res.json({
+        secret,
+        otpauthUrl,
+        qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", requireAuth, async (req, res) => {
+    const secret = req.session.pendingTotpSecret;
+    if (!secret) {
+      return res.status(400).json({ message: "No two-factor setup in progress" });
+    }
+
+    const code = typeof req.body?.code === "string" ? req.body.code : "";
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+      return res.status(400).json({ message: "Invalid authentication code" });
+    }
+
+    try {
+      const codes = generateRecoveryCodes();
+      await storage.enableTotp(req.session.userId!, secret, codes.map(hashRecoveryCode));
+      await storage.recordTotpStep(req.session.userId!, step);
+      delete req.session.pendingTotpSecret;
+
+      // Plaintext codes are only ever shown this once
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      if (!(await checkPasswordThrottled(req, res, user))) {
+        return;
+      }
+
+      if ((await getSecurityPolicy()).requireAdminTwoFactor && hasAdminAccess(user)) {
+        return res.status(400).json({ message: "Two-factor authentication is required for admin accounts" });
+      }
+
+      await storage.disableTotp(user.id);
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user?.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      if (!(await checkPasswordThrottled(req, res, user))) {
+        return;
+      }
+
+      const codes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, codes.map(hashRecoveryCode));
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  // Passkey (WebAuthn) routes
+  app.post("/api/auth/webauthn/register/options", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const existing = await storage.getUserCredentials(user.id);
+      const options = await webAuthnService.getRegistrationOptions(getRelyingParty(req), user, existing);
+
+      req.session.webauthnChallenge = options.challenge;
+      res.json(options);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start passkey registration" });
+    }
+  });
+
+  app.post("/api/auth/webauthn/register/verify", requireAuth, async (req, res) => {
+    const expectedChallenge = req.session.webauthnChallenge;
+    delete req.session.webauthnChallenge;
+    if (!expectedChallenge) {
+      return res.status(400).json({ message: "No passkey registration in progress" });
+    }
+
+    try {
+      const { response, name } = req.body;
+      const verified = await webAuthnService.verifyRegistration(
+        getRelyingParty(req),
+        response,
+        expectedChallenge
+      );
+      if (!verified) {
+        return res.status(400).json({ message: "Passkey could not be verified" });
+      }
+
+      const credential = await storage.createUserCredential({
+        ...verified,
+        userId: req.session.userId!,
+        name: typeof name === "string" && name.trim() ? name.trim().slice(0, 64) : "Passkey",
+      });
+      res.status(201).json(credential);
+    } catch (error) {
+      // Verification errors describe the credential and our config; keep them in the log
+      console.error("Passkey registration failed:", error);
+      res.status(400).json({ message: "Failed to register passkey" });
+    }
+  });
+
+  app.post("/api/auth/webauthn/authenticate/options", async (req, res) => {
+    try {
+      const options = await webAuthnService.getAuthenticationOptions(getRelyingParty(req));
+      req.session.webauthnChallenge = options.challenge;
+      res.json(options);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start passkey sign-in" });
+    }
+  });
+
+  app.post("/api/auth/webauthn/authenticate/verify", async (req, res) => {
+    const expectedChallenge = req.session.webauthnChallenge;
+    delete req.session.webauthnChallenge;
+    if (!expectedChallenge) {
+      return res.status(400).json({ message: "No passkey sign-in in progress" });
+    }
+
+    try {
+      const { response } = req.body;
+      const credential = typeof response?.id === "string"
+        ? await storage.getCredentialByCredentialId(response.id)
+        : undefined;
+      if (!credential) {
+        return res.status(401).json({ message: "Passkey not recognized" });
+      }
+
+      const verified = await webAuthnService.verifyAuthentication(
+        getRelyingParty(req),
+        response,
+        expectedChallenge,
+        credential
+      );
+      if (!verified) {
+        return res.status(401).json({ message: "Passkey could not be verified" });
+      }
+
+      await storage.updateCredentialCounter(credential.id, verified.newCounter);
+
+      const user = await storage.getUser(credential.userId);
+      if (!user) {
+        return res.status(401).json({ message: "Passkey not recognized" });
+      }
+
+      // Passkeys already prove possession and user presence, so no TOTP step
+      await establishSession(req, user.id);
+      res.json({ user: toPublicUser(user) });
+    } catch (error) {
+      console.error("Passkey sign-in failed:", error);
+      res.status(401).json({ message: "Failed to sign in with passkey" });
+    }
+  });
+
+  app.get("/api/auth/webauthn/credentials", requireAuth, async (req, res) => {
+    try {
+      const credentials = await storage.getUserCredentials(req.session.userId!);
+      res.json(credentials.map(({ publicKey, ...credential }) => credential));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch passkeys" });
+    }
+  });
+
+  app.delete("/api/auth/webauthn/credentials/:id", requireAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteUserCredential(req.session.userId!, parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Passkey not found" });
+      }
+      res.json({ message: "Passkey removed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove passkey" });
+    }
+  });
+
+  app.get("/api/auth/me", async (req, res) => {
+    if (!req.session?.userId) {
+      return res.json(null);
+    }
+
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (!user) {
+        return res.json(null);
+      }
+
+      const policy = await getSecurityPolicy();
+      res.json({
+        ...toPublicUser(user),
+        twoFactorEnrollmentRequired:
+          policy.requireAdminTwoFactor && hasAdminAccess(user) && !user.totpEnabledAt,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get user" });
+    }
+  });
+
+  app.get("/api/auth/verify", async (req, res) => {
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+    const payload = verifyToken(token, "verify-email");
+    if (!payload) {
+      return res.status(400).json({ message: "Verification link is invalid or has expired" });
+    }
+
+    try {
+      const user = await storage.getUser(payload.userId);
+      // A token issued for an address the user has since changed is stale
+      if (!user || user.email !== payload.email) {
+        return res.status(400).json({ message: "Verification link is invalid or has expired" });
+      }
+
+      if (!user.isVerified) {
+        await storage.setUserVerified(user.id);
+      }
+
+      res.json({ message: "Email verified successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  app.post("/api/auth/resend-verification", async (req, res) => {
+    // Counted before the lookup so it says nothing about the address
+    const ipLimit = verificationResendIpLimiter.consume(`ip:${req.ip}`);
+    if (!ipLimit.allowed) {
+      res.set("Retry-After", String(Math.ceil(ipLimit.retryAfterMs / 1000)));
+      return res.status(429).json({ message: "Too many verification emails requested. Please try again later." });
+    }
+
+    try {
+      const user = req.session?.userId
+        ? await storage.getUser(req.session.userId)
+        : typeof req.body?.email === "string"
+          ? await storage.getUserByEmail(req.body.email)
+          : undefined;
+
+      // Respond identically whether or not the address exists
+      const genericResponse = { message: "If the account needs verification, an email has been sent" };
+      if (!user || user.isVerified) {
+        return res.json(genericResponse);
+      }
+
+      // Over the per-account limit we quietly skip the email; a 429 here would
+      // give away that the address has an unverified account
+      if (verificationEmailLimiter.consume(`user:${user.id}`).allowed) {
+        await sendVerificationEmail(req, user);
+      }
+      res.json(genericResponse);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    const email = typeof req.body?.email === "string" ? req.body.email.trim() : "";
+    if (!email) {
+      return res.status(400).json({ message: "Email is required" });
+    }
+
+    const emailLimit = passwordResetLimiter.consume(`email:${email.toLowerCase()}`);
+    const ipLimit = passwordResetLimiter.consume(`ip:${req.ip}`);
+    if (!emailLimit.allowed || !ipLimit.allowed) {
+      const retryAfterMs = Math.max(emailLimit.retryAfterMs, ipLimit.retryAfterMs);
+      res.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+      return res.status(429).json({ message: "Too many reset requests. Please try again later." });
+    }
+
+    try {
+      // Respond identically whether or not the address exists
+      const user = await storage.getUserByEmail(email);
+      if (user) {
+        const token = randomBytes(32).toString("base64url");
+        await storage.createPasswordResetToken(
+          user.id,
+          hashResetToken(token),
+          new Date(Date.now() + PASSWORD_RESET_TTL)
+        );
+
+        const resetUrl = `${getBaseUrl(req)}/reset-password?token=${encodeURIComponent(token)}`;
+        await mailService.sendPasswordResetEmail(user.email, user.username, resetUrl);
+      }
+
+      res.json({ message: "If an account exists for that email, a reset link has been sent" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+
+      const resetToken = await storage.consumePasswordResetToken(hashResetToken(token));
+      if (!resetToken) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      await storage.updateUserPassword(resetToken.userId, await hashPassword(password));
+      await storage.invalidatePasswordResetTokens(resetToken.userId);
+      // Sign out every device, including whoever may have taken over the account
+      await storage.destroyUserSessions(resetToken.userId);
+
+      res.json({ message: "Password has been reset. Please log in with your new password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reset data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Session management routes
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const sessions = await storage.getUserSessions(req.session.userId!);
+      res.json(
+        sessions
+          .map(({ sid, sess, expire }) => ({
+            id: sessionHandle(sid),
+            userAgent: sess.userAgent || null,
+            ip: sess.ip || null,
+            createdAt: sess.createdAt ? new Date(sess.createdAt) : null,
+            lastSeenAt: sess.lastSeenAt ? new Date(sess.lastSeenAt) : null,
+            expiresAt: expire,
+            current: sid === req.sessionID,
+          }))
+          .sort((a, b) => (b.lastSeenAt?.getTime() || 0) - (a.lastSeenAt?.getTime() || 0))
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const sessions = await storage.getUserSessions(req.session.userId!);
+      const session = sessions.find(({ sid }) => sessionHandle(sid) === req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      if (session.sid === req.sessionID) {
+        return req.session.destroy(() => {
+          res.json({ message: "Signed out", current: true });
+        });
+      }
+
+      await storage.destroySession(session.sid);
+      res.json({ message: "Signed out", current: false });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  app.delete("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      await storage.destroyUserSessions(req.session.userId!);
+      req.session.destroy(() => {
+        res.json({ message: "Signed out everywhere" });
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out sessions" });
+    }
+  });
+
+  // Account routes
+  app.patch("/api/account/profile", requireAuth, async (req, res) => {
+    try {
+      const profile = updateProfileSchema.parse(req.body);
+      const user = await storage.updateUserProfile(req.session.userId!, profile);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid profile data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  app.post("/api/account/email", requireAuth, async (req, res) => {
+    try {
+      const { email, password } = changeEmailSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { valid } = await verifyPassword(password, user.password);
+      if (!valid) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+      if (email === user.email) {
+        return res.status(400).json({ message: "That is already your email address" });
+      }
+      if (await storage.getUserByEmail(email)) {
+        return res.status(400).json({ message: "Email already registered" });
+      }
+
+      const { allowed, retryAfterMs } = verificationEmailLimiter.consume(`email-change:${user.id}`);
+      if (!allowed) {
+        res.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+        return res.status(429).json({ message: "Too many email change requests. Please try again later." });
+      }
+
+      const updatedUser = await storage.setPendingEmail(user.id, email);
+      await sendEmailChangeEmail(req, updatedUser, email);
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid email data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to change email" });
+    }
+  });
+
+  app.delete("/api/account/email", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.setPendingEmail(req.session.userId!, null);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel email change" });
+    }
+  });
+
+  app.get("/api/account/email/confirm", async (req, res) => {
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+    const payload = verifyToken(token, "change-email");
+    if (!payload?.email) {
+      return res.status(400).json({ message: "Confirmation link is invalid or has expired" });
+    }
+
+    try {
+      // The address may have been registered by someone else since the request
+      const existing = await storage.getUserByEmail(payload.email);
+      if (existing && existing.id !== payload.userId) {
+        return res.status(400).json({ message: "Email already registered" });
+      }
+
+      const user = await storage.confirmEmailChange(payload.userId, payload.email);
+      if (!user) {
+        return res.status(400).json({ message: "Confirmation link is invalid or has expired" });
+      }
+
+      res.json({ message: "Email address updated" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to confirm email change" });
+    }
+  });
+
+  app.post("/api/account/password", requireAuth, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { valid } = await verifyPassword(currentPassword, user.password);
+      if (!valid) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+      await storage.invalidatePasswordResetTokens(user.id);
+      // Keep this device signed in but end every other session
+      await storage.destroyUserSessions(user.id, req.sessionID);
+
+      res.json({ message: "Password changed" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  app.delete("/api/account", requireAuth, async (req, res) => {
+    const password = typeof req.body?.password === "string" ? req.body.password : "";
+
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { valid } = await verifyPassword(password, user.password);
+      if (!valid) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      if (await hasUnshippedOrders(user.id)) {
+        return res.status(409).json({
+          message: "You have orders that have not shipped yet. Please try again once they have been delivered.",
+        });
+      }
+
+      const summary = await anonymizeAccount(user.id);
+      await storage.logPrivacyAction({
+        subjectUserId: user.id,
+        actorUserId: user.id,
+        action: "account_deleted",
+        details: summary,
+      });
+      req.session.destroy(() => {
+        res.json({ message: "Account deleted" });
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
+  // Privacy routes
+  app.get("/api/account/export", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { allowed, retryAfterMs } = dataExportLimiter.consume(`user:${user.id}`);
+      if (!allowed) {
+        res.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+        return res.status(429).json({ message: "Too many export requests. Please try again later." });
+      }
+
+      const data = await buildDataExport(user);
+      await storage.logPrivacyAction({
+        subjectUserId: user.id,
+        actorUserId: user.id,
+        action: "data_exported",
+      });
+
+      const date = new Date().toISOString().slice(0, 10);
+      res.set("Content-Disposition", `attachment; filename="jesus-walks-napa-data-${date}.json"`);
+      res.type("application/json").send(JSON.stringify(data, null, 2));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
+
+  app.get("/api/account/erasure-requests", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getUserErasureRequests(req.session.userId!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch erasure requests" });
+    }
+  });
+
+  app.post("/api/account/erasure-requests", requireAuth, async (req, res) => {
+    const reason = typeof req.body?.reason === "string" && req.body.reason.trim()
+      ? req.body.reason.trim().slice(0, 1000)
+      : null;
+
+    try {
+      const userId = req.session.userId!;
+      const existing = await storage.getUserErasureRequests(userId);
+      if (existing.some(({ status }) => status === "pending" || status === "approved")) {
+        return res.status(409).json({ message: "You already have an erasure request in progress" });
+      }
+
+      const request = await storage.createErasureRequest(userId, reason);
+      await storage.logPrivacyAction({
+        subjectUserId: userId,
+        actorUserId: userId,
+        action: "erasure_requested",
+        details: { requestId: request.id },
+      });
+      res.status(201).json(request);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create erasure request" });
+    }
+  });
+
+  app.get("/api/admin/erasure-requests", requirePermission("users:manage"), async (_req, res) => {
+    try {
+      const requests = await storage.getAllErasureRequests();
+      res.json(
+        await Promise.all(
+          requests.map(async (request) => {
+            const user = await storage.getUser(request.userId);
+            return { ...request, username: user?.username ?? null, email: user?.email ?? null };
+          })
+        )
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch erasure requests" });
+    }
+  });
+
+  app.post("/api/admin/erasure-requests/:id/approve", requirePermission("users:manage"), async (req, res) => {
+    const requestId = parseInt(req.params.id);
+
+    try {
+      const existing = await storage.getErasureRequest(requestId);
+      if (!existing) {
+        return res.status(404).json({ message: "Erasure request not found" });
+      }
+      if (existing.userId === req.session.userId) {
+        return res.status(400).json({ message: "Another admin must approve your own erasure request" });
+      }
+      if (await hasUnshippedOrders(existing.userId)) {
+        return res.status(409).json({ message: "This user has paid orders that have not shipped yet" });
+      }
+
+      const request = await storage.reviewErasureRequest(requestId, req.session.userId!, "approved", null);
+      if (!request) {
+        return res.status(409).json({ message: "This request has already been reviewed" });
+      }
+
+      try {
+        const summary = await anonymizeAccount(request.userId);
+        const completed = await storage.setErasureRequestStatus(request.id, "completed");
+        await storage.logPrivacyAction({
+          subjectUserId: request.userId,
+          actorUserId: req.session.userId!,
+          action: "erasure_completed",
+          details: { requestId: request.id, ...summary },
+        });
+        res.json(completed);
+      } catch (error) {
+        // Put the request back so it can be approved again
+        await storage.setErasureRequestStatus(request.id, "pending");
+        throw error;
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to approve erasure request" });
+    }
+  });
+
+  app.post("/api/admin/erasure-requests/:id/reject", requirePermission("users:manage"), async (req, res) => {
+    const note = typeof req.body?.note === "string" && req.body.note.trim() ? req.body.note.trim() : null;
+    if (!note) {
+      return res.status(400).json({ message: "Please give a reason for rejecting the request" });
+    }
+
+    try {
+      const request = await storage.reviewErasureRequest(parseInt(req.params.id), req.session.userId!, "rejected", note);
+      if (!request) {
+        return res.status(409).json({ message: "This request is not pending" });
+      }
+
+      await storage.logPrivacyAction({
+        subjectUserId: request.userId,
+        actorUserId: req.session.userId!,
+        action: "erasure_rejected",
+        details: { requestId: request.id },
+      });
+      res.json(request);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reject erasure request" });
+    }
+  });
+
+  app.get("/api/admin/privacy-audit-log", requirePermission("users:manage"), async (_req, res) => {
+    try {
+      res.json(await storage.getPrivacyAuditLog(PRIVACY_AUDIT_LOG_LIMIT));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy(() => {
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+
+  // Admin routes
+  app.get("/api/users", requirePermission("users:view"), async (_req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.get("/api/orders", requirePermission("orders:view"), async (_req, res) => {
+    try {
+      const orders = await storage.getAllOrders();
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  // Cancelling a paid order refunds it, so that also needs orders:refund
+  app.post("/api/orders/:id/cancel", requirePermission("orders:manage"), async (req, res) => {
+    try {
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const user = await storage.getUser(req.session.userId!);
+      if (order.status === "paid" && !hasPermission(user, "orders:refund")) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const cancelled = await cancelOrder(order, req.session.userId!);
+      if (!cancelled) {
+        return res.status(409).json({ message: `This order is ${order.status} and can't be cancelled` });
+      }
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Failed to cancel order:", error);
+      res.status(500).json({ message: "Failed to cancel order" });
+    }
+  });
+
+  app.post("/api/orders/:id/returns", requirePermission("orders:manage"), async (req, res) => {
+    try {
+      const { items, note } = orderReturnSchema.parse(req.body);
+      const result = await storage.returnOrderItems(parseInt(req.params.id), items, note ?? null, req.session.userId!);
+      if (result.status === "invalid") {
+        return res.status(409).json({ message: result.message });
+      }
+      res.json(result.order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid return", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record return" });
+    }
+  });
+
+  app.patch("/api/users/:id/roles", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { roles } = z.object({ roles: z.array(z.enum(ROLE_NAMES as [Role, ...Role[]])) }).parse(req.body);
+
+      // Prevent admins from locking themselves out
+      if (userId === req.session.userId) {
+        return res.status(400).json({ message: "You cannot change your own roles" });
+      }
+
+      const existing = await storage.getUser(userId);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = await storage.updateUserRole(userId, Array.from(new Set(roles)));
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid roles", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update user roles" });
+    }
+  });
+
+  app.get("/api/admin/security-policy", requirePermission("users:manage"), async (_req, res) => {
+    try {
+      res.json(await getSecurityPolicy());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch security policy" });
+    }
+  });
+
+  app.put("/api/admin/security-policy", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      const policy = securityPolicySchema.parse(req.body);
+      // Otherwise the admin turning the policy on would lock themselves out
+      if (policy.requireAdminTwoFactor && !user?.totpEnabledAt) {
+        return res.status(400).json({ message: "Enable two-factor authentication on your own account first" });
+      }
+
+      await storage.setSetting(SECURITY_POLICY_KEY, policy);
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid security policy", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update security policy" });
+    }
+  });
+
+  app.post("/api/users/:id/unlock", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const existing = await storage.getUser(userId);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = await storage.resetFailedLogins(userId);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to unlock user" });
+    }
+  });
+
+  app.delete("/api/users/:id/sessions", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const existing = await storage.getUser(userId);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.destroyUserSessions(userId);
+      res.json({ message: "All sessions for this user have been signed out" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out user sessions" });
+    }
+  });
+
+  // User routes
+  app.post("/api/users", async (req, res) => {
+    try {
+      const userData = insertUserSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(userData.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already taken" });
+      }
+
+      const existingEmail = await storage.getUserByEmail(userData.email);
+      if (existingEmail) {
+        return res.status(400).json({ message: "Email already registered" });
+      }
+
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
+
+      // The account exists either way; a mail failure can be recovered by resending
+      verificationEmailLimiter.consume(`user:${user.id}`);
+      sendVerificationEmail(req, user).catch((error) => {
+        console.error("Failed to send verification email:", error);
+      });
+
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  // Event routes
+  app.get("/api/events", async (_req, res) => {
+    try {
+      const events = await storage.getUpcomingEvents();
+      const seriesIds = Array.from(new Set(events.flatMap((event) => (event.seriesId ? [event.seriesId] : []))));
+      const recurrences = new Map(
+        (await storage.getEventSeriesByIds(seriesIds)).map((series) => [series.id, describeRecurrence(series.recurrence)])
+      );
+      res.json(events.map((event) => ({
+        ...event,
+        recurrence: event.seriesId ? recurrences.get(event.seriesId) ?? null : null,
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch events" });
+    }
+  });
+
+  app.get("/api/events/:id", async (req, res) => {
+    try {
+      const event = await storage.getEvent(parseInt(req.params.id));
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const [registeredCount, reservedCount, waitlistCount] = await Promise.all([
+        storage.countActiveRegistrations(event.id),
+        storage.countOpenWaitlistOffers(event.id),
+        storage.countWaitingEntries(event.id),
+      ]);
+      const userId = req.session?.userId;
+      const registration = userId ? await storage.getUserEventRegistration(userId, event.id) : undefined;
+      const waitlistEntry = userId ? await storage.getActiveWaitlistEntry(userId, event.id) : undefined;
+      // Registrations taken over by transfer, or made before the current
+      // waiver existed, still need the holder's own signature and contact
+      const [emergencyInfo, acceptance, waiver] = registration
+        ? await Promise.all([
+            storage.getRegistrationEmergencyInfo(registration.id),
+            storage.getWaiverAcceptance(registration.id, registration.userId),
+            storage.getCurrentWaiver(),
+          ])
+        : [];
+
+      res.json({
+        ...event,
+        remainingCapacity: Math.max(event.capacity - registeredCount - reservedCount, 0),
+        registration: registration ?? null,
+        participantInfoComplete: registration ? !!emergencyInfo && (!waiver || !!acceptance) : null,
+        waitlistCount,
+        waitlistEntry: waitlistEntry
+          ? {
+              id: waitlistEntry.id,
+              status: waitlistEntry.status,
+              position: waitlistEntry.status === "waiting" ? await storage.getWaitlistPosition(waitlistEntry) : null,
+              offerExpiresAt: waitlistEntry.offerExpiresAt,
+            }
+          : null,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch event" });
+    }
+  });
+
+  app.post("/api/events", requirePermission("events:manage"), async (req, res) => {
+    try {
+      const eventData = insertEventSchema.parse(req.body);
+      const event = await storage.createEvent(eventData);
+      res.status(201).json(event);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create event" });
+    }
+  });
+
+  app.patch("/api/events/:id", requirePermission("events:manage"), async (req, res) => {
+    try {
+      const { notifyRegistrants, notificationMessage, ...changes } = updateEventRequestSchema.parse(req.body);
+      const event = await storage.getEvent(parseInt(req.params.id));
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      // An occurrence edited here no longer follows changes to its series
+      const result = await storage.updateEventWithinCapacity(event.id, {
+        ...changes,
+        ...(event.seriesId ? { seriesOverride: true } : {}),
+      });
+      if (result.status === "not_found") {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      if (result.status === "capacity_too_low") {
+        return res.status(400).json({
+          message: `Capacity can't be lower than the ${result.taken} spots already taken`,
+        });
+      }
+
+      const { previous, event: updated } = result;
+      if (updated.capacity > previous.capacity) {
+        await promoteFromWaitlist(updated.id, getBaseUrl(req));
+      }
+      const notified = notifyRegistrants
+        ? await notifyEventChanged(updated, describeEventChanges(previous, updated), notificationMessage, getBaseUrl(req))
+        : 0;
+      res.json({ ...updated, notified });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update event" });
+    }
+  });
+
+  app.post("/api/events/:id/cancel", requirePermission("events:manage"), async (req, res) => {
+    try {
+      const { notificationMessage } = cancelEventRequestSchema.parse(req.body);
+      const event = await storage.getEvent(parseInt(req.params.id));
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      if (event.cancelledAt) {
+        return res.status(409).json({ message: "This event has already been cancelled" });
+      }
+
+      const registrations = await cancelEventAndRefund(event);
+      const notified = await notifyEventCancelled(event, registrations, notificationMessage);
+      res.json({ ...(await storage.getEvent(event.id)), registrationsCancelled: registrations.length, notified });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cancellation request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to cancel event" });
+    }
+  });
+
+  app.get("/api/admin/events", requirePermission("events:manage"), async (_req, res) => {
+    try {
+      res.json(await storage.getEventSummaries());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch events" });
+    }
+  });
+
+  // Event images are sent as the raw request body with an image content type
+  app.post(
+    "/api/admin/uploads/images",
+    requirePermission("events:manage"),
+    express.raw({ type: "image/*", limit: MAX_IMAGE_BYTES }),
+    async (req, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "No image received" });
+        }
+        const url = await saveImageUpload(req.body);
+        if (!url) {
+          return res.status(400).json({ message: "Please upload a JPEG, PNG, GIF or WebP image" });
+        }
+        res.status(201).json({ url });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to upload image" });
+      }
+    }
+  );
+
+  // Event series routes
+  app.get("/api/event-series", requirePermission("events:manage"), async (_req, res) => {
+    try {
+      res.json(await storage.getAllEventSeries());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch event series" });
+    }
+  });
+
+  app.get("/api/event-series/:id", requirePermission("events:manage"), async (req, res) => {
+    try {
+      const series = await storage.getEventSeries(parseInt(req.params.id));
+      if (!series) {
+        return res.status(404).json({ message: "Event series not found" });
+      }
+      res.json({ ...series, occurrences: await storage.getSeriesOccurrences(series.id) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch event series" });
+    }
+  });
 
-// Middleware to check if user is authenticated and is an admin
-const requireAdmin = async (req: any, res: any, next: any) => {
-  if (!req.session?.userId) {
-    return res.status(401).json({ message: "Unauthorized" });
-  }
+  app.post("/api/event-series", requirePermission("events:manage"), async (req, res) => {
+    try {
+      const seriesData = insertEventSeriesSchema.parse(req.body);
+      const series = await storage.createEventSeries(seriesData);
+      await materializeSeries(series);
+      res.status(201).json({ ...series, occurrences: await storage.getSeriesOccurrences(series.id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event series data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create event series" });
+    }
+  });
 
-  const user = await storage.getUser(req.session.userId);
-  if (!user?.isAdmin) {
-    return res.status(403).json({ message: "Forbidden" });
-  }
+  // Changing the schedule (recurrence, dates or exceptions) cancels upcoming
+  // occurrences that fall off it, refunding anyone registered
+  app.patch("/api/event-series/:id", requirePermission("events:manage"), async (req, res) => {
+    try {
+      const changes = updateEventSeriesSchema.parse(req.body);
+      const series = await storage.updateEventSeries(parseInt(req.params.id), changes);
+      if (!series) {
+        return res.status(404).json({ message: "Event series not found" });
+      }
+      await syncSeriesOccurrences(series, getBaseUrl(req));
+      res.json({ ...series, occurrences: await storage.getSeriesOccurrences(series.id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event series data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update event series" });
+    }
+  });
 
-  next();
-};
+  // Registration routes
+  app.post("/api/registrations", requireVerified, async (req, res) => {
+    try {
+      const { eventId, participant } = registrationRequestSchema.parse(req.body);
+      const user = (await storage.getUser(req.session.userId!))!;
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Auth routes
-  app.post("/api/auth/login", async (req, res) => {
-    const { username, password } = req.body;
+      const event = await storage.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      if (event.date.getTime() < Date.now()) {
+        return res.status(400).json({ message: "This event has already taken place" });
+      }
+      if (event.cancelledAt) {
+        return res.status(400).json({ message: "This event has been cancelled" });
+      }
+
+      const existing = await storage.getUserEventRegistration(user.id, eventId);
+      if (existing?.status === "pending" && existing.paymentIntentId) {
+        // Let the member pick up an unfinished payment instead of holding a second spot
+        const paymentIntent = await stripe.paymentIntents.retrieve(existing.paymentIntentId);
+        return res.json({ registration: existing, clientSecret: paymentIntent.client_secret });
+      }
+      if (existing) {
+        return res.status(409).json({ message: "You are already registered for this event" });
+      }
+
+      const result = await registerForEvent(user, event, participant, req);
+      res.status(result.status).json(result.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid registration data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create registration" });
+    }
+  });
 
+  app.post("/api/registrations/:id/cancel", requireAuth, async (req, res) => {
     try {
-      const user = await storage.getUserByUsername(username);
-      if (!user || user.password !== password) { // Note: In production, use proper password hashing
-        return res.status(401).json({ message: "Invalid credentials" });
+      const registration = await storage.getRegistration(parseInt(req.params.id));
+      if (!registration || registration.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      const event = (await storage.getEvent(registration.eventId))!;
+      if (event.date <= new Date()) {
+        return res.status(400).json({ message: "This event has already started" });
+      }
+
+      let cancelled = await storage.cancelRegistration(registration.id);
+      if (!cancelled) {
+        return res.status(409).json({ message: "This registration is no longer active" });
+      }
+      if (cancelled.paymentIntentId && !cancelled.amountPaid) {
+        // Stop an unfinished payment from going through after the spot is released.
+        // If it already succeeded, the payment webhook refunds it in full.
+        await stripe.paymentIntents.cancel(cancelled.paymentIntentId).catch((error) => {
+          console.error(`Failed to cancel payment ${cancelled!.paymentIntentId}:`, error);
+        });
       }
+      await promoteFromWaitlist(cancelled.eventId, getBaseUrl(req));
 
-      req.session.userId = user.id;
-      res.json({ user });
+      try {
+        cancelled = await refundCancelledRegistration(cancelled, event);
+      } catch (error) {
+        console.error(`Failed to refund registration ${cancelled.id}:`, error);
+        return res.json({
+          ...cancelled,
+          refundError: "Your registration was cancelled but we couldn't issue your refund automatically. Our team will follow up.",
+        });
+      }
+      res.json(cancelled);
     } catch (error) {
-      res.status(500).json({ message: "Failed to login" });
+      res.status(500).json({ message: "Failed to cancel registration" });
     }
   });
 
-  app.get("/api/auth/me", async (req, res) => {
-    if (!req.session?.userId) {
-      return res.json(null);
+  app.post("/api/registrations/:id/transfer", requireVerified, async (req, res) => {
+    try {
+      const { recipient: handle } = registrationTransferSchema.parse(req.body);
+      const registration = await storage.getRegistration(parseInt(req.params.id));
+      if (!registration || registration.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      if (registration.status !== "confirmed") {
+        return res.status(400).json({ message: "Only confirmed registrations can be transferred" });
+      }
+      const event = (await storage.getEvent(registration.eventId))!;
+      if (event.date <= new Date()) {
+        return res.status(400).json({ message: "This event has already started" });
+      }
+
+      const recipient = handle.includes("@")
+        ? await storage.getUserByEmail(handle)
+        : await storage.getUserByUsername(handle);
+      if (!recipient || recipient.deletedAt) {
+        return res.status(404).json({ message: "No member found with that username or email" });
+      }
+      if (recipient.id === registration.userId) {
+        return res.status(400).json({ message: "This registration is already yours" });
+      }
+      if (!recipient.isVerified) {
+        return res.status(400).json({ message: "That member needs to verify their email address first" });
+      }
+
+      const result = await storage.transferRegistration(registration.id, registration.userId, recipient.id);
+      if (result.status === "duplicate") {
+        return res.status(409).json({ message: `${recipient.username} is already registered for this event` });
+      }
+      if (result.status === "unavailable") {
+        return res.status(409).json({ message: "This registration is no longer active" });
+      }
+
+      // The recipient may have been holding a waitlist offer, which is now free
+      await promoteFromWaitlist(event.id, getBaseUrl(req));
+      await sendTicket(result.registration, getBaseUrl(req));
+      const sender = (await storage.getUser(registration.userId))!;
+      await mailService.sendRegistrationTransferEmail(
+        recipient.email,
+        recipient.username,
+        sender.displayName || sender.username,
+        event.title,
+        `${getBaseUrl(req)}/events/${event.id}`
+      ).catch((error) => console.error("Failed to send transfer email:", error));
+
+      res.json({ message: `Your registration has been transferred to ${recipient.username}` });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid transfer request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to transfer registration" });
     }
+  });
 
+  app.put("/api/registrations/:id/participant-info", requireAuth, async (req, res) => {
     try {
-      const user = await storage.getUser(req.session.userId);
-      res.json(user || null);
+      const info = participantInfoSchema.parse(req.body);
+      const registration = await storage.getRegistration(parseInt(req.params.id));
+      if (!registration || registration.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      if (registration.status !== "confirmed" && registration.status !== "pending") {
+        return res.status(400).json({ message: "This registration is no longer active" });
+      }
+
+      const checked = await checkParticipantInfo(info, req);
+      if ("error" in checked) {
+        return res.status(checked.error.status).json(checked.error.body);
+      }
+      await storage.saveParticipantInfo(registration.id, { ...checked.participant, userId: registration.userId });
+      res.json({ message: "Your details have been saved" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get user" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid participant details", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save participant details" });
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    req.session.destroy(() => {
-      res.json({ message: "Logged out successfully" });
-    });
+  // Waiver routes
+  app.get("/api/waivers/current", async (_req, res) => {
+    try {
+      res.json((await storage.getCurrentWaiver()) ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch waiver" });
+    }
   });
 
-  // Admin routes
-  app.get("/api/users", requireAdmin, async (_req, res) => {
+  app.get("/api/admin/waivers", requirePermission("events:manage"), async (_req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      res.json(users);
+      res.json(await storage.getAllWaivers());
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch users" });
+      res.status(500).json({ message: "Failed to fetch waivers" });
     }
   });
 
-  app.get("/api/orders", requireAdmin, async (_req, res) => {
+  // Publishing adds a new version; signatures on earlier versions stay valid
+  app.post("/api/admin/waivers", requirePermission("events:manage"), async (req, res) => {
     try {
-      const orders = await storage.getAllOrders();
-      res.json(orders);
+      const waiverData = insertWaiverSchema.parse(req.body);
+      res.status(201).json(await storage.publishWaiver(waiverData, req.session.userId!));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch orders" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid waiver", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to publish waiver" });
     }
   });
 
-  // User routes
-  app.post("/api/users", async (req, res) => {
+  // Printable sheet for trail leaders with emergency contacts, medical notes
+  // and waiver status for everyone confirmed
+  app.get("/api/events/:id/roster.pdf", requirePermission("registrations:medical"), async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
+      const event = await storage.getEvent(parseInt(req.params.id));
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
 
-      const existingUser = await storage.getUserByUsername(userData.username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username already taken" });
+      const pdf = await renderRosterPdf(event, await storage.getEmergencyRoster(event.id));
+      res.set("Content-Disposition", `inline; filename="roster-event-${event.id}.pdf"`);
+      res.set("Cache-Control", "no-store");
+      res.type("application/pdf").send(pdf);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate roster" });
+    }
+  });
+
+  // Ticket and check-in routes
+  app.get("/api/account/tickets", requireAuth, async (req, res) => {
+    try {
+      const tickets = await storage.getUserTickets(req.session.userId!);
+      res.json(await Promise.all(tickets.map(async ({ registration, event }) => {
+        const ticket = createTicket(registration, event);
+        return {
+          registrationId: registration.id,
+          event: { id: event.id, title: event.title, date: event.date, location: event.location },
+          checkedInAt: registration.checkedInAt,
+          qrCodeDataUrl: await renderTicketQrCode(ticket),
+        };
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tickets" });
+    }
+  });
+
+  // Everything the check-in page needs to work without a connection,
+  // including each attendee's ticket so scans can be matched on the device
+  app.get("/api/events/:id/roster", requirePermission("registrations:checkin"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(parseInt(req.params.id));
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
       }
 
-      const existingEmail = await storage.getUserByEmail(userData.email);
-      if (existingEmail) {
-        return res.status(400).json({ message: "Email already registered" });
+      const roster = await storage.getCheckInRoster(event.id);
+      res.json({
+        event: { id: event.id, title: event.title, date: event.date, location: event.location },
+        attendees: roster.map(({ registration, user }) => ({
+          registrationId: registration.id,
+          name: user.displayName || user.username,
+          username: user.username,
+          ticket: createTicket(registration, event),
+          checkedInAt: registration.checkedInAt,
+        })),
+        fetchedAt: new Date(),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch roster" });
+    }
+  });
+
+  app.post("/api/events/:id/check-ins", requirePermission("registrations:checkin"), async (req, res) => {
+    try {
+      const { checkIns } = checkInBatchSchema.parse(req.body);
+      const eventId = parseInt(req.params.id);
+      if (!(await storage.getEvent(eventId))) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      // A scan was matched against a roster that may be stale, so the ticket
+      // is checked again here; one cancelled or transferred since is dropped
+      const accepted = [];
+      for (const checkIn of checkIns) {
+        if (checkIn.ticket) {
+          const registration = await verifyTicket(checkIn.ticket);
+          if (registration?.id !== checkIn.registrationId || registration.eventId !== eventId) {
+            continue;
+          }
+        }
+        accepted.push(checkIn);
       }
 
-      const user = await storage.createUser(userData);
-      res.status(201).json(user);
+      // Device clocks drift; never record an arrival in the future
+      const now = new Date();
+      const recorded = await storage.recordCheckIns(
+        eventId,
+        accepted.map(({ registrationId, checkedInAt }) => ({
+          registrationId,
+          checkedInAt: checkedInAt > now ? now : checkedInAt,
+        })),
+        req.session.userId!
+      );
+      res.json(recorded.map((registration) => ({
+        registrationId: registration.id,
+        checkedInAt: registration.checkedInAt,
+      })));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid check-in data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create user" });
+      res.status(500).json({ message: "Failed to record check-ins" });
     }
   });
 
-  // Event routes
-  app.get("/api/events", async (_req, res) => {
+  // Calendar routes. Calendar apps fetch feeds without a session, so the
+  // personal feed is found by the secret token in its URL.
+
+  app.get("/api/calendar/events.ics", async (req, res) => {
     try {
-      const events = await storage.getAllEvents();
-      res.json(events);
+      const events = await storage.getUpcomingEvents();
+      sendCalendar(res, "jesus-walks-napa.ics", buildCalendar("Jesus Walks Napa", events, getBaseUrl(req)));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch events" });
+      res.status(500).json({ message: "Failed to build calendar" });
     }
   });
 
-  app.post("/api/events", async (req, res) => {
+  app.get("/api/calendar/personal/:token.ics", async (req, res) => {
     try {
-      const eventData = insertEventSchema.parse(req.body);
-      const event = await storage.createEvent(eventData);
-      res.status(201).json(event);
+      const user = await storage.getUserByCalendarFeedToken(req.params.token);
+      if (!user) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+      const events = await storage.getUserCalendarEvents(user.id);
+      res.set("Cache-Control", "private, no-store");
+      sendCalendar(res, "my-hikes.ics", buildCalendar("My Jesus Walks Napa Hikes", events, getBaseUrl(req)));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      res.status(500).json({ message: "Failed to build calendar" });
+    }
+  });
+
+  app.get("/api/events/:id/calendar.ics", async (req, res) => {
+    try {
+      const event = await storage.getEvent(parseInt(req.params.id));
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
       }
-      res.status(500).json({ message: "Failed to create event" });
+      sendCalendar(res, `event-${event.id}.ics`, buildCalendar(event.title, [event], getBaseUrl(req)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build calendar" });
     }
   });
 
-  // Registration routes
-  app.post("/api/registrations", async (req, res) => {
+  // The token is created on first use and kept until the member resets it
+  app.get("/api/account/calendar-feed", requireAuth, async (req, res) => {
+    try {
+      let user = (await storage.getUser(req.session.userId!))!;
+      if (!user.calendarFeedToken) {
+        user = await storage.setCalendarFeedToken(user.id, randomBytes(32).toString("base64url"));
+      }
+      res.json({ url: `${getBaseUrl(req)}/api/calendar/personal/${user.calendarFeedToken}.ics` });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  // Cuts off every calendar subscribed with the old link
+  app.post("/api/account/calendar-feed/reset", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.setCalendarFeedToken(req.session.userId!, randomBytes(32).toString("base64url"));
+      res.json({ url: `${getBaseUrl(req)}/api/calendar/personal/${user.calendarFeedToken}.ics` });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset calendar feed" });
+    }
+  });
+
+  // Event waitlist routes
+  app.post("/api/events/:id/waitlist", requireVerified, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const event = await storage.getEvent(parseInt(req.params.id));
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      if (event.date.getTime() < Date.now()) {
+        return res.status(400).json({ message: "This event has already taken place" });
+      }
+      if (event.cancelledAt) {
+        return res.status(400).json({ message: "This event has been cancelled" });
+      }
+      if (await storage.getUserEventRegistration(userId, event.id)) {
+        return res.status(409).json({ message: "You are already registered for this event" });
+      }
+
+      const existing = await storage.getActiveWaitlistEntry(userId, event.id);
+      if (existing) {
+        return res.json(existing);
+      }
+
+      const entry = await storage.joinEventWaitlist(userId, event.id);
+      // A spot may have opened between the sign-up attempt and joining
+      await promoteFromWaitlist(event.id, getBaseUrl(req));
+      res.status(201).json(entry);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to join waitlist" });
+    }
+  });
+
+  app.delete("/api/events/:id/waitlist", requireAuth, async (req, res) => {
     try {
-      const registrationData = insertRegistrationSchema.parse(req.body);
+      const eventId = parseInt(req.params.id);
+      const entry = await storage.getActiveWaitlistEntry(req.session.userId!, eventId);
+      if (!entry) {
+        return res.status(404).json({ message: "You are not on the waitlist for this event" });
+      }
 
-      const event = await storage.getEvent(registrationData.eventId);
+      const left = await storage.leaveEventWaitlist(entry.id);
+      if (left?.offeredAt) {
+        // Declining an offer passes the spot straight to the next person
+        await promoteFromWaitlist(eventId, getBaseUrl(req));
+      }
+      res.json({ message: "Removed from waitlist" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
+  app.post("/api/events/:id/waitlist/claim", requireVerified, async (req, res) => {
+    try {
+      const { participant } = waitlistClaimSchema.parse(req.body);
+      const user = (await storage.getUser(req.session.userId!))!;
+      const event = await storage.getEvent(parseInt(req.params.id));
       if (!event) {
         return res.status(404).json({ message: "Event not found" });
       }
 
-      const registrations = await storage.getEventRegistrations(registrationData.eventId);
-      if (registrations.length >= event.capacity) {
-        return res.status(400).json({ message: "Event is at full capacity" });
+      const entry = await storage.getActiveWaitlistEntry(user.id, event.id);
+      if (entry?.status !== "offered") {
+        return res.status(409).json({ message: "You do not have an open offer for this event" });
       }
 
-      const registration = await storage.createRegistration(registrationData);
-      res.status(201).json(registration);
+      const result = await registerForEvent(user, event, participant, req, entry.id);
+      res.status(result.status).json(result.body);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid registration data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create registration" });
+      res.status(500).json({ message: "Failed to claim spot" });
+    }
+  });
+
+  // Stripe webhooks; the signature is checked against the unparsed request body
+  app.post("/api/webhooks/stripe", async (req, res) => {
+    const signature = req.get("stripe-signature");
+    if (!process.env.STRIPE_WEBHOOK_SECRET) {
+      console.error("Received a Stripe webhook but STRIPE_WEBHOOK_SECRET is not set");
+      return res.status(500).json({ message: "Webhooks are not configured" });
+    }
+    if (!signature || !Buffer.isBuffer(req.rawBody)) {
+      return res.status(400).json({ message: "Missing Stripe signature" });
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = stripe.webhooks.constructEvent(req.rawBody, signature, process.env.STRIPE_WEBHOOK_SECRET);
+    } catch (error: any) {
+      return res.status(400).json({ message: `Webhook signature verification failed: ${error.message}` });
+    }
+
+    try {
+      const handled = await handleStripeEvent(event);
+      res.json({ received: true, duplicate: !handled });
+    } catch (error) {
+      console.error(`Failed to handle Stripe event ${event.id}:`, error);
+      // A non-2xx response makes Stripe retry the delivery
+      res.status(500).json({ message: "Failed to handle webhook" });
     }
   });
 
@@ -179,10 +2123,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Product routes
-  app.post("/api/products", requireAdmin, async (req, res) => {
+  app.post("/api/products", requirePermission("products:manage"), async (req, res) => {
     try {
       const productData = insertProductSchema.parse(req.body);
-      const product = await storage.createProduct(productData);
+      const product = await storage.createProduct(productData, req.session.userId);
       res.status(201).json(product);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -192,6 +2136,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/products/:id/stock", requirePermission("products:manage"), async (req, res) => {
+    try {
+      const { stock, note } = stockAdjustmentSchema.parse(req.body);
+      const result = await storage.updateProductStock(parseInt(req.params.id), stock, note, req.session.userId!);
+      if (result.status === "not_found") {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (result.status === "below_reserved") {
+        return res.status(409).json({
+          message: `${result.reserved} units are reserved by unpaid orders, so stock can't go below that`,
+        });
+      }
+      res.json(result.product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid stock adjustment", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update stock" });
+    }
+  });
+
+  app.get("/api/products/:id/inventory", requirePermission("products:manage"), async (req, res) => {
+    try {
+      const movements = await storage.getProductInventoryMovements(parseInt(req.params.id));
+      res.json(movements);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch inventory history" });
+    }
+  });
+
   app.get("/api/products", async (_req, res) => {
     try {
       const products = await storage.getAllProducts();
@@ -201,31 +2175,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Add Stripe payment route
-  app.post("/api/create-payment-intent", async (req, res) => {
+  // Shows checkout what the order will cost before it is placed. Lines whose
+  // price changed since the cart was filled come back flagged.
+  app.post("/api/orders/price", async (req, res) => {
+    try {
+      const result = await priceOrder(createOrderRequestSchema.parse(req.body));
+      if (result.status !== "priced") {
+        return sendPricingError(res, result);
+      }
+      res.json(result.breakdown);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to price order" });
+    }
+  });
+
+  // The amount charged is whatever priceOrder works out; a cart showing old
+  // prices is turned away so the customer sees what they will pay first
+  app.post("/api/orders", requireVerified, async (req, res) => {
     try {
-      const { amount } = req.body;
+      const request = createOrderRequestSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
 
-      if (!amount || amount <= 0) {
-        return res.status(400).json({ message: "Invalid amount" });
+      const result = await priceOrder(request);
+      if (result.status !== "priced") {
+        return sendPricingError(res, result);
+      }
+      const { breakdown } = result;
+      if (breakdown.priceChanged) {
+        return res.status(409).json({
+          message: "Some prices have changed since you added them to your cart",
+          code: "STALE_CART",
+          breakdown,
+        });
       }
 
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount * 100), // Convert to cents
-        currency: "usd",
-        // Add automatic payment methods
-        automatic_payment_methods: {
-          enabled: true,
+      const reservation = await storage.createOrderWithItems(
+        {
+          userId: user.id,
+          status: "pending",
+          shippingAddress: request.shippingAddress,
+          reservationExpiresAt: new Date(Date.now() + ORDER_HOLD_MS),
+          ...toOrderAmounts(breakdown),
         },
-      });
+        breakdown.lines.map((line) => ({
+          productId: line.productId,
+          quantity: line.quantity,
+          price: fromCents(line.unitPrice),
+        }))
+      );
+      // Another checkout took the last units between pricing and reserving
+      if (reservation.status === "out_of_stock") {
+        return sendPricingError(res, reservation);
+      }
+      const { order } = reservation;
 
-      res.json({ clientSecret: paymentIntent.client_secret });
-    } catch (error: any) {
-      console.error("Stripe error:", error);
-      res.status(500).json({
-        message: "Error creating payment intent",
-        details: error.message
+      let paymentIntent: Stripe.PaymentIntent;
+      try {
+        paymentIntent = await createOrderPayment(order, user);
+      } catch (error) {
+        await storage.cancelPendingOrder(order.id);
+        throw error;
+      }
+
+      res.status(201).json({
+        order: { ...order, paymentIntentId: paymentIntent.id },
+        breakdown,
+        clientSecret: paymentIntent.client_secret,
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order", errors: error.errors });
+      }
+      console.error("Failed to create order:", error);
+      res.status(500).json({ message: "Failed to create order" });
+    }
+  });
+
+  // Where Stripe's return_url lands. An order still pending here may just be
+  // waiting on the webhook, so Stripe is asked directly and a succeeded
+  // payment is applied now; doing so twice is harmless, so the page can be
+  // refreshed freely.
+  app.get("/api/orders/by-payment-intent/:paymentIntentId", requireAuth, async (req, res) => {
+    try {
+      let order = await storage.getOrderByPaymentIntent(req.params.paymentIntentId);
+      if (!order || order.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      let paymentStatus: Stripe.PaymentIntent.Status | null = null;
+      if (order.status === "pending") {
+        const paymentIntent = await stripe.paymentIntents.retrieve(req.params.paymentIntentId);
+        paymentStatus = paymentIntent.status;
+        if (paymentIntent.status === "succeeded") {
+          await handleOrderPaymentSucceeded(paymentIntent);
+          order = (await storage.getOrder(order.id))!;
+        }
+      }
+
+      const items = await storage.getOrderItemDetails(order.id);
+      res.json({ order, items, paymentStatus });
+    } catch (error) {
+      console.error("Failed to fetch order:", error);
+      res.status(500).json({ message: "Failed to fetch order" });
     }
   });
 
@@ -243,6 +2300,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rates for shipping the shop's standard parcel to the given address
+  app.post("/api/shipping/quote", async (req, res) => {
+    try {
+      const address = shippingAddressSchema.parse(req.body);
+      const rates = await shippingService.quoteOrder(address);
+      res.json(rates);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid address data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to calculate shipping rates" });
+    }
+  });
+
   app.post("/api/shipping/calculate-rates", async (req, res) => {
     try {
       const { fromAddress, toAddress, parcelDetails } = req.body;
@@ -0,0 +1,85 @@
+import { storage } from "../storage";
+import { mailService } from "./mail";
+import { EVENT_TIME_ZONE } from "@shared/timezone";
+import type { Event, Registration } from "@shared/schema";
+
+function formatEventDate(date: Date): string {
+  return date.toLocaleString("en-US", {
+    timeZone: EVENT_TIME_ZONE,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+// Describes the edits that matter to someone who is already registered
+export function describeEventChanges(previous: Event, updated: Event): string[] {
+  const changes: string[] = [];
+  if (previous.date.getTime() !== updated.date.getTime()) {
+    changes.push(`Now on ${formatEventDate(updated.date)} (Pacific time), previously ${formatEventDate(previous.date)}`);
+  }
+  if (previous.location !== updated.location) {
+    changes.push(`Now at ${updated.location}, previously ${previous.location}`);
+  }
+  if (previous.title !== updated.title) {
+    changes.push(`Renamed from "${previous.title}"`);
+  }
+  if (previous.description !== updated.description) {
+    changes.push("The event description has been updated");
+  }
+  return changes;
+}
+
+// Emails everyone holding a spot. Returns how many messages were sent.
+export async function notifyEventChanged(
+  event: Event,
+  changes: string[],
+  note: string | undefined,
+  baseUrl: string
+): Promise<number> {
+  if (changes.length === 0 && !note) {
+    return 0;
+  }
+
+  let sent = 0;
+  for (const { user } of await storage.getEventAttendees(event.id)) {
+    try {
+      await mailService.sendEventUpdateEmail(
+        user.email,
+        user.username,
+        event.title,
+        `${baseUrl}/events/${event.id}`,
+        changes,
+        note
+      );
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send event update to user ${user.id}:`, error);
+    }
+  }
+  return sent;
+}
+
+// Emails the members whose registrations were released by the cancellation
+export async function notifyEventCancelled(
+  event: Event,
+  registrations: Registration[],
+  note?: string
+): Promise<number> {
+  let sent = 0;
+  for (const registration of registrations) {
+    try {
+      const user = await storage.getUser(registration.userId);
+      if (!user || user.deletedAt) {
+        continue;
+      }
+      await mailService.sendEventCancellationEmail(user.email, user.username, event.title, registration.amountRefunded, note);
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send cancellation notice for registration ${registration.id}:`, error);
+    }
+  }
+  return sent;
+}
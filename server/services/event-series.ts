@@ -0,0 +1,109 @@
+import { storage } from "../storage";
+import { cancelEventAndRefund } from "./registration-payments";
+import { describeEventChanges, notifyEventCancelled, notifyEventChanged } from "./event-notifications";
+import { listOccurrenceDates } from "@shared/recurrence";
+import { toZonedDateString, zonedTimeToUtc } from "@shared/timezone";
+import type { EventSeries } from "@shared/schema";
+
+// How far ahead occurrences exist as events that members can register for
+export const OCCURRENCE_HORIZON_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MATERIALIZE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+function scheduledDates(series: EventSeries): string[] {
+  return listOccurrenceDates(
+    {
+      rule: series.recurrence,
+      startDate: series.startDate,
+      endDate: series.endDate,
+      exceptions: series.exceptions,
+    },
+    toZonedDateString(new Date()),
+    toZonedDateString(new Date(Date.now() + OCCURRENCE_HORIZON_DAYS * DAY_MS))
+  );
+}
+
+// The event fields an occurrence copies from its series
+function occurrenceFields(series: EventSeries, occurrenceDate: string) {
+  return {
+    title: series.title,
+    description: series.description,
+    location: series.location,
+    capacity: series.capacity,
+    price: series.price,
+    imageUrl: series.imageUrl,
+    refundPolicy: series.refundPolicy,
+    date: zonedTimeToUtc(occurrenceDate, series.startTime),
+  };
+}
+
+// Creates events for every scheduled date within the horizon that doesn't
+// have one yet. Safe to run repeatedly.
+export async function materializeSeries(series: EventSeries): Promise<number> {
+  const now = new Date();
+  const occurrences = scheduledDates(series)
+    .map((occurrenceDate) => ({ ...occurrenceFields(series, occurrenceDate), seriesId: series.id, occurrenceDate }))
+    .filter((occurrence) => occurrence.date > now);
+
+  const changed = await storage.upsertSeriesOccurrences(occurrences);
+  return changed.length;
+}
+
+// Applies a series edit to its upcoming occurrences. Dates that are no longer
+// scheduled are cancelled, occurrences edited on their own keep their details,
+// and the rest are rewritten from the series. Registrants hear about both.
+export async function syncSeriesOccurrences(series: EventSeries, baseUrl: string): Promise<void> {
+  const scheduled = new Set(scheduledDates(series));
+  const now = new Date();
+  const upcoming = (await storage.getSeriesOccurrences(series.id))
+    .filter((occurrence) => occurrence.date > now && !occurrence.cancelledAt);
+
+  for (const occurrence of upcoming) {
+    if (!scheduled.has(occurrence.occurrenceDate!)) {
+      const released = await cancelEventAndRefund(occurrence, false);
+      await notifyEventCancelled(occurrence, released);
+    } else if (!occurrence.seriesOverride) {
+      const fields = occurrenceFields(series, occurrence.occurrenceDate!);
+      let result = await storage.updateEventWithinCapacity(occurrence.id, fields);
+      if (result.status === "capacity_too_low") {
+        // Never squeeze out people who already have a spot on this date
+        result = await storage.updateEventWithinCapacity(occurrence.id, { ...fields, capacity: result.taken });
+      }
+      if (result.status === "updated") {
+        await notifyEventChanged(result.event, describeEventChanges(result.previous, result.event), undefined, baseUrl);
+      }
+    }
+  }
+
+  await materializeSeries(series);
+}
+
+export async function materializeAllSeries(): Promise<number> {
+  let created = 0;
+  for (const series of await storage.getAllEventSeries()) {
+    try {
+      created += await materializeSeries(series);
+    } catch (error) {
+      console.error(`Failed to materialize event series ${series.id}:`, error);
+    }
+  }
+  return created;
+}
+
+export function startSeriesMaterializer() {
+  const run = () => {
+    materializeAllSeries()
+      .then((created) => {
+        if (created > 0) {
+          console.log(`Scheduled ${created} event series occurrences`);
+        }
+      })
+      .catch((error) => console.error("Event series materialization failed:", error));
+  };
+
+  run();
+  const timer = setInterval(run, MATERIALIZE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
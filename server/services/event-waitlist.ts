@@ -0,0 +1,62 @@
+import { storage } from "../storage";
+import { mailService } from "./mail";
+
+// How long a member has to claim a spot offered from the waitlist
+export const WAITLIST_CLAIM_WINDOW_MS = (parseInt(process.env.WAITLIST_CLAIM_HOURS || "", 10) || 12) * 60 * 60 * 1000;
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Offers any free spots on the event to the next people in line and emails them
+export async function promoteFromWaitlist(
+  eventId: number,
+  baseUrl = process.env.APP_URL || "http://localhost:5000"
+): Promise<number> {
+  const offers = await storage.offerWaitlistSpots(eventId, new Date(Date.now() + WAITLIST_CLAIM_WINDOW_MS));
+  if (offers.length === 0) {
+    return 0;
+  }
+
+  const event = await storage.getEvent(eventId);
+  for (const offer of offers) {
+    try {
+      const user = await storage.getUser(offer.userId);
+      if (user && event) {
+        await mailService.sendWaitlistOfferEmail(
+          user.email,
+          user.username,
+          event.title,
+          `${baseUrl}/events/${event.id}`,
+          offer.offerExpiresAt!
+        );
+      }
+    } catch (error) {
+      // The offer stands even if the email fails; it shows on the event page
+      console.error(`Failed to send waitlist offer ${offer.id}:`, error);
+    }
+  }
+  return offers.length;
+}
+
+// Passes lapsed offers on to the next person in line
+export async function expireWaitlistOffers(): Promise<number> {
+  const expired = await storage.getExpiredWaitlistOffers();
+  const eventIds = new Set<number>();
+
+  for (const offer of expired) {
+    if (await storage.expireWaitlistOffer(offer.id)) {
+      eventIds.add(offer.eventId);
+    }
+  }
+  for (const eventId of Array.from(eventIds)) {
+    await promoteFromWaitlist(eventId);
+  }
+  return expired.length;
+}
+
+export function startWaitlistSweeper() {
+  const timer = setInterval(() => {
+    expireWaitlistOffers().catch((error) => console.error("Waitlist sweep failed:", error));
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
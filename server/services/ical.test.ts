@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildCalendar } from "./ical";
+import type { Event } from "@shared/schema";
+
+const BASE_URL = "https://jesuswalksnapa.example";
+
+function event(fields: Partial<Event>): Event {
+  return {
+    id: 12,
+    title: "Sunrise hike",
+    description: "Bring water",
+    location: "Skyline Park",
+    date: new Date("2024-06-01T13:30:00Z"),
+    capacity: 20,
+    price: 0,
+    imageUrl: "",
+    refundPolicy: null,
+    seriesId: null,
+    occurrenceDate: null,
+    seriesOverride: false,
+    cancelledAt: null,
+    sequence: 0,
+    updatedAt: new Date("2024-05-01T12:00:00Z"),
+    ...fields,
+  };
+}
+
+// Undoes line folding so each property can be checked whole
+function unfold(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("buildCalendar", () => {
+  it("writes each event in Pacific wall-clock time with a stable UID", () => {
+    const lines = unfold(buildCalendar("Events", [event({})], BASE_URL));
+
+    assert.ok(lines.includes("UID:event-12@jesuswalksnapa.example"));
+    assert.ok(lines.includes("DTSTART;TZID=America/Los_Angeles:20240601T063000"));
+    assert.ok(lines.includes("DTEND;TZID=America/Los_Angeles:20240601T093000"));
+    assert.ok(lines.includes("URL:https://jesuswalksnapa.example/events/12"));
+    assert.ok(lines.includes("STATUS:CONFIRMED"));
+  });
+
+  it("uses CRLF line endings and ends with one", () => {
+    const calendar = buildCalendar("Events", [event({})], BASE_URL);
+
+    assert.ok(calendar.startsWith("BEGIN:VCALENDAR\r\n"));
+    assert.ok(calendar.endsWith("END:VCALENDAR\r\n"));
+    assert.ok(!/[^\r]\n/.test(calendar));
+  });
+
+  it("escapes text values", () => {
+    const lines = unfold(buildCalendar("Events", [event({ title: "Hike; then lunch, maybe", location: "A\\B" })], BASE_URL));
+
+    assert.ok(lines.includes("SUMMARY:Hike\\; then lunch\\, maybe"));
+    assert.ok(lines.includes("LOCATION:A\\\\B"));
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const description = "Trail notes: ".concat("é".repeat(120));
+    const calendar = buildCalendar("Events", [event({ description })], BASE_URL);
+
+    for (const line of calendar.split("\r\n")) {
+      assert.ok(Buffer.byteLength(line) <= 75, line);
+    }
+    assert.ok(unfold(calendar).some((line) => line.startsWith(`DESCRIPTION:${description}`)));
+  });
+
+  it("carries the revision so calendar apps pick up edits", () => {
+    const lines = unfold(buildCalendar("Events", [event({ sequence: 3, updatedAt: new Date("2024-05-20T08:15:00Z") })], BASE_URL));
+
+    assert.ok(lines.includes("SEQUENCE:3"));
+    assert.ok(lines.includes("LAST-MODIFIED:20240520T081500Z"));
+  });
+
+  it("marks cancelled events", () => {
+    const lines = unfold(buildCalendar("Events", [event({ cancelledAt: new Date("2024-05-30T00:00:00Z") })], BASE_URL));
+
+    assert.ok(lines.includes("STATUS:CANCELLED"));
+  });
+});
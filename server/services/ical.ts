@@ -0,0 +1,103 @@
+import { EVENT_TIME_ZONE, toZonedDateString, toZonedTimeString } from "@shared/timezone";
+import { getEventEnd, toCalendarUtc } from "@shared/calendar";
+import type { Event } from "@shared/schema";
+
+// US Pacific rules in force since 2007: daylight time from the second Sunday
+// in March, standard time from the first Sunday in November. Calendar apps
+// use this to place each event on the right side of a DST change.
+const PACIFIC_VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${EVENT_TIME_ZONE}`,
+  `X-LIC-LOCATION:${EVENT_TIME_ZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0800",
+  "TZOFFSETTO:-0700",
+  "TZNAME:PDT",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0700",
+  "TZOFFSETTO:-0800",
+  "TZNAME:PST",
+  "DTSTART:19701101T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// Subscribed calendars poll at most this often
+const REFRESH_INTERVAL = "PT6H";
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines may be at most 75 octets; longer ones continue on the next line
+// after a single space. Splits on character boundaries so UTF-8 stays intact.
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+// Wall-clock time in the event time zone, e.g. "20240601T063000"
+function toLocalDateTime(date: Date): string {
+  return `${toZonedDateString(date).replace(/-/g, "")}T${toZonedTimeString(date).replace(":", "")}00`;
+}
+
+function buildEvent(event: Event, baseUrl: string, stamp: string): string[] {
+  const url = `${baseUrl}/events/${event.id}`;
+  return [
+    "BEGIN:VEVENT",
+    `UID:event-${event.id}@${new URL(baseUrl).host}`,
+    `DTSTAMP:${stamp}`,
+    // Calendar apps only replace their copy when the sequence goes up
+    `SEQUENCE:${event.sequence}`,
+    `LAST-MODIFIED:${toCalendarUtc(event.updatedAt)}`,
+    `DTSTART;TZID=${EVENT_TIME_ZONE}:${toLocalDateTime(event.date)}`,
+    `DTEND;TZID=${EVENT_TIME_ZONE}:${toLocalDateTime(getEventEnd(event.date))}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(`${event.description}\n\n${url}`)}`,
+    `LOCATION:${escapeText(event.location)}`,
+    `URL:${url}`,
+    `STATUS:${event.cancelledAt ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+  ];
+}
+
+export function buildCalendar(name: string, events: Event[], baseUrl: string): string {
+  const stamp = toCalendarUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Jesus Walks Napa//Events//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${EVENT_TIME_ZONE}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...PACIFIC_VTIMEZONE,
+    ...events.flatMap((event) => buildEvent(event, baseUrl, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
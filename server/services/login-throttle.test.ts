@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { LoginThrottle } from "./login-throttle";
+import type { User } from "@shared/schema";
+
+function account(fields: Partial<User>): User {
+  return { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null, ...fields } as User;
+}
+
+describe("LoginThrottle", () => {
+  it("lets a clean account and address straight through", () => {
+    const throttle = new LoginThrottle();
+
+    assert.deepEqual(throttle.check("203.0.113.1", account({})), {
+      allowed: true,
+      retryAfterMs: 0,
+      captchaRequired: false,
+    });
+  });
+
+  it("refuses a locked account until the lock runs out", () => {
+    const throttle = new LoginThrottle();
+    const result = throttle.check("203.0.113.1", account({ lockedUntil: new Date(Date.now() + 60_000) }));
+
+    assert.equal(result.allowed, false);
+    assert.ok(result.retryAfterMs > 0 && result.retryAfterMs <= 60_000);
+  });
+
+  it("ignores a lock that has already expired", () => {
+    const throttle = new LoginThrottle();
+
+    assert.equal(throttle.check("203.0.113.1", account({ lockedUntil: new Date(Date.now() - 1) })).allowed, true);
+  });
+
+  it("makes an account wait after repeated failures", () => {
+    const throttle = new LoginThrottle();
+    const result = throttle.check(
+      "203.0.113.1",
+      account({ failedLoginAttempts: 4, lastFailedLoginAt: new Date() })
+    );
+
+    assert.equal(result.allowed, false);
+    assert.ok(result.retryAfterMs > 1000 && result.retryAfterMs <= 2000);
+    assert.equal(result.captchaRequired, true);
+  });
+
+  it("slows down an address however many accounts it tries", () => {
+    const throttle = new LoginThrottle();
+    for (let i = 0; i < 3; i++) {
+      throttle.recordIpFailure("203.0.113.2");
+    }
+
+    const result = throttle.check("203.0.113.2", undefined);
+    assert.equal(result.allowed, false);
+    assert.equal(result.captchaRequired, true);
+    assert.equal(throttle.check("203.0.113.3", undefined).allowed, true);
+  });
+
+  it("blocks an address after too many failures", () => {
+    const throttle = new LoginThrottle();
+    let failures = 0;
+    for (let i = 0; i < 50; i++) {
+      failures = throttle.recordIpFailure("203.0.113.4");
+    }
+
+    assert.equal(failures, 50);
+    const result = throttle.check("203.0.113.4", account({}));
+    assert.equal(result.allowed, false);
+    assert.equal(result.captchaRequired, false);
+    assert.ok(result.retryAfterMs > 14 * 60 * 1000);
+  });
+});
@@ -0,0 +1,106 @@
+import type { User } from "@shared/schema";
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) ? fallback : value;
+}
+
+// Failures before a CAPTCHA is demanded; 0 disables the challenge
+const CAPTCHA_THRESHOLD = envInt("LOGIN_CAPTCHA_THRESHOLD", 3);
+// Failures before each further attempt must wait, doubling every time
+const DELAY_THRESHOLD = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+// Consecutive account failures before a temporary lockout
+export const LOCKOUT_THRESHOLD = envInt("LOGIN_LOCKOUT_THRESHOLD", 10);
+export const LOCKOUT_DURATION_MS = envInt("LOGIN_LOCKOUT_MINUTES", 15) * 60 * 1000;
+// Failures from one address before it is blocked, regardless of account
+const IP_BLOCK_THRESHOLD = 50;
+// Address counters are forgotten after this long without a failure
+const IP_WINDOW_MS = 15 * 60 * 1000;
+const MAX_TRACKED_IPS = 10000;
+
+interface FailureRecord {
+  failures: number;
+  lastFailureAt: number;
+}
+
+export interface LoginCheck {
+  allowed: boolean;
+  retryAfterMs: number;
+  captchaRequired: boolean;
+}
+
+function delayFor(failures: number): number {
+  if (failures < DELAY_THRESHOLD) {
+    return 0;
+  }
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - DELAY_THRESHOLD), MAX_DELAY_MS);
+}
+
+// Account failures are persisted on the users row so lockouts survive a
+// restart and can be cleared by an admin; per-address failures live in memory.
+export class LoginThrottle {
+  private ipFailures = new Map<string, FailureRecord>();
+
+  check(ip: string, user: User | undefined): LoginCheck {
+    const now = Date.now();
+    const ipRecord = this.getIpRecord(ip, now);
+
+    if (user?.lockedUntil && user.lockedUntil.getTime() > now) {
+      return { allowed: false, retryAfterMs: user.lockedUntil.getTime() - now, captchaRequired: false };
+    }
+
+    if (ipRecord.failures >= IP_BLOCK_THRESHOLD) {
+      return { allowed: false, retryAfterMs: ipRecord.lastFailureAt + IP_WINDOW_MS - now, captchaRequired: false };
+    }
+
+    const accountFailures = user?.failedLoginAttempts || 0;
+    const accountLastFailure = user?.lastFailedLoginAt?.getTime() || 0;
+    const retryAfterMs = Math.max(
+      accountLastFailure + delayFor(accountFailures) - now,
+      ipRecord.lastFailureAt + delayFor(ipRecord.failures) - now,
+      0
+    );
+
+    return {
+      allowed: retryAfterMs === 0,
+      retryAfterMs,
+      captchaRequired: this.needsCaptcha(Math.max(accountFailures, ipRecord.failures)),
+    };
+  }
+
+  recordIpFailure(ip: string): number {
+    const now = Date.now();
+    const record = this.getIpRecord(ip, now);
+    const updated = { failures: record.failures + 1, lastFailureAt: now };
+    this.ipFailures.set(ip, updated);
+    if (this.ipFailures.size > MAX_TRACKED_IPS) {
+      this.prune(now);
+    }
+    return updated.failures;
+  }
+
+  needsCaptcha(failures: number): boolean {
+    return CAPTCHA_THRESHOLD > 0 && failures >= CAPTCHA_THRESHOLD;
+  }
+
+  private prune(now: number) {
+    for (const [ip, record] of Array.from(this.ipFailures)) {
+      if (record.lastFailureAt + IP_WINDOW_MS <= now) {
+        this.ipFailures.delete(ip);
+      }
+    }
+  }
+
+  private getIpRecord(ip: string, now: number): FailureRecord {
+    const record = this.ipFailures.get(ip);
+    if (!record || record.lastFailureAt + IP_WINDOW_MS <= now) {
+      this.ipFailures.delete(ip);
+      return { failures: 0, lastFailureAt: 0 };
+    }
+    return record;
+  }
+}
+
+export const loginThrottle = new LoginThrottle();
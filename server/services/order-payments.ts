@@ -0,0 +1,210 @@
+import type Stripe from "stripe";
+import { storage } from "../storage";
+import { stripe, toCents, fromCents } from "./stripe";
+import type { Order, User } from "@shared/schema";
+
+export const ORDER_PAYMENT_TYPE = "shop_order";
+
+// How long an unpaid order keeps its stock reserved
+export const ORDER_HOLD_MS = (parseInt(process.env.ORDER_HOLD_MINUTES || "", 10) || 30) * 60 * 1000;
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// The PaymentIntent is created for the total already stored on the order, and
+// its metadata points back at the order so webhooks can find it
+export async function createOrderPayment(order: Order, user: User): Promise<Stripe.PaymentIntent> {
+  const paymentIntent = await stripe.paymentIntents.create(
+    {
+      amount: toCents(parseFloat(order.total)),
+      currency: "usd",
+      description: `Order #${order.id}`,
+      receipt_email: user.email,
+      automatic_payment_methods: {
+        enabled: true,
+      },
+      metadata: {
+        type: ORDER_PAYMENT_TYPE,
+        orderId: String(order.id),
+        userId: String(user.id),
+      },
+    },
+    { idempotencyKey: `order-${order.id}` }
+  );
+
+  await storage.setOrderPaymentIntent(order.id, paymentIntent.id);
+  return paymentIntent;
+}
+
+function paymentIntentId(value: string | Stripe.PaymentIntent | null): string | null {
+  return typeof value === "string" ? value : value?.id ?? null;
+}
+
+export async function handleOrderPaymentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+  const order = await storage.markOrderPaid(paymentIntent.id);
+  if (!order) {
+    await refundReleasedOrder(paymentIntent);
+    return;
+  }
+  console.log(`Order ${order.id} paid by ${paymentIntent.id}`);
+  if (toCents(parseFloat(order.total)) !== paymentIntent.amount_received) {
+    console.warn(
+      `Order ${order.id} total ${order.total} does not match ${paymentIntent.amount_received} cents received`
+    );
+  }
+}
+
+// The reservation lapsed, or the order was cancelled, while the payment was in
+// flight. Its stock may already be sold, so the money goes back.
+async function refundReleasedOrder(paymentIntent: Stripe.PaymentIntent) {
+  const order = await storage.getOrderByPaymentIntent(paymentIntent.id);
+  if (!order || order.status !== "cancelled" || order.amountRefunded) {
+    return;
+  }
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: paymentIntent.id,
+      metadata: { type: ORDER_PAYMENT_TYPE, orderId: String(order.id) },
+    },
+    { idempotencyKey: `order-refund-${order.id}` }
+  );
+  await storage.recordOrderRefund(order.id, fromCents(refund.amount), true);
+  console.log(`Refunded late payment ${paymentIntent.id} for cancelled order ${order.id}`);
+}
+
+// A declined card leaves the order pending; the customer can try again with
+// the same PaymentIntent
+export async function handleOrderPaymentFailed(paymentIntent: Stripe.PaymentIntent) {
+  const message = paymentIntent.last_payment_error?.message ?? "Payment failed";
+  const order = await storage.recordOrderPaymentFailure(paymentIntent.id, message);
+  if (order) {
+    console.log(`Payment attempt for order ${order.id} failed: ${message}`);
+  }
+}
+
+// Refunds are issued from the Stripe dashboard, so the charge is the source of
+// truth for how much has gone back
+export async function handleOrderChargeRefunded(charge: Stripe.Charge) {
+  const id = paymentIntentId(charge.payment_intent);
+  const order = id ? await storage.getOrderByPaymentIntent(id) : undefined;
+  if (!order) {
+    return;
+  }
+  await storage.recordOrderRefund(order.id, fromCents(charge.amount_refunded), charge.refunded);
+  console.log(`Order ${order.id} refunded ${fromCents(charge.amount_refunded)}`);
+}
+
+export async function handleOrderDispute(dispute: Stripe.Dispute) {
+  const id = paymentIntentId(dispute.payment_intent);
+  const order = id ? await storage.getOrderByPaymentIntent(id) : undefined;
+  if (!order) {
+    return;
+  }
+  await storage.setOrderDisputeStatus(order.id, dispute.status);
+  console.warn(`Order ${order.id} payment disputed (${dispute.reason}): ${dispute.status}`);
+}
+
+export async function handleOrderPaymentCanceled(paymentIntent: Stripe.PaymentIntent) {
+  const order = await storage.getOrderByPaymentIntent(paymentIntent.id);
+  if (order && (await storage.cancelPendingOrder(order.id))) {
+    console.log(`Order ${order.id} cancelled with its payment; reserved stock released`);
+  }
+}
+
+// Cancels an order on a manager's say-so. An unpaid order's PaymentIntent is
+// cancelled before its stock is released; a paid order is refunded whatever
+// hasn't already been refunded and its stock put back. Returns null for orders
+// past the point of cancelling, which need a return instead.
+export async function cancelOrder(order: Order, cancelledBy: number): Promise<Order | null> {
+  if (order.status === "pending") {
+    if (order.paymentIntentId) {
+      const paymentIntent = await stripe.paymentIntents.retrieve(order.paymentIntentId);
+      if (paymentIntent.status === "succeeded" || paymentIntent.status === "processing") {
+        return null;
+      }
+      if (paymentIntent.status !== "canceled") {
+        await stripe.paymentIntents.cancel(paymentIntent.id);
+      }
+    }
+    return (await storage.cancelPendingOrder(order.id)) ?? null;
+  }
+
+  if (order.status !== "paid") {
+    return null;
+  }
+
+  // Refund before touching the order, so a failed refund leaves it paid and
+  // the cancel can simply be tried again. The key includes the amount, so a
+  // retry reuses the same refund unless part of it has since been recorded.
+  let amountRefunded = order.amountRefunded ? toCents(parseFloat(order.amountRefunded)) : 0;
+  const outstanding = toCents(parseFloat(order.total)) - amountRefunded;
+  if (order.paymentIntentId && outstanding > 0) {
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: order.paymentIntentId,
+        amount: outstanding,
+        reason: "requested_by_customer",
+        metadata: { type: ORDER_PAYMENT_TYPE, orderId: String(order.id) },
+      },
+      { idempotencyKey: `order-cancel-refund-${order.id}-${outstanding}` }
+    );
+    amountRefunded += refund.amount;
+  }
+
+  const result = await storage.cancelPaidOrder(order.id, cancelledBy);
+  if (result.status !== "restocked") {
+    return null;
+  }
+  if (outstanding > 0 && order.paymentIntentId) {
+    return await storage.recordOrderRefund(order.id, fromCents(amountRefunded), false);
+  }
+  return result.order;
+}
+
+// Releases stock held by unpaid orders whose reservation has lapsed. As with
+// registration holds, the PaymentIntent is cancelled first so a late payment
+// can't succeed for stock that has been handed back.
+export async function releaseExpiredOrderReservations(): Promise<number> {
+  const expired = await storage.getExpiredOrderReservations();
+  let released = 0;
+
+  for (const order of expired) {
+    try {
+      if (order.paymentIntentId) {
+        const paymentIntent = await stripe.paymentIntents.retrieve(order.paymentIntentId);
+        if (paymentIntent.status === "succeeded") {
+          // The webhook was missed; honour the payment
+          await handleOrderPaymentSucceeded(paymentIntent);
+          continue;
+        }
+        if (paymentIntent.status === "processing") {
+          continue;
+        }
+        if (paymentIntent.status !== "canceled") {
+          await stripe.paymentIntents.cancel(paymentIntent.id);
+        }
+      }
+
+      if (await storage.cancelPendingOrder(order.id)) {
+        released++;
+      }
+    } catch (error) {
+      console.error(`Failed to release stock reserved by order ${order.id}:`, error);
+    }
+  }
+
+  return released;
+}
+
+export function startOrderReservationSweeper() {
+  const timer = setInterval(() => {
+    releaseExpiredOrderReservations()
+      .then((released) => {
+        if (released > 0) {
+          console.log(`Released stock from ${released} expired orders`);
+        }
+      })
+      .catch((error) => console.error("Order reservation sweep failed:", error));
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { hashPassword, isPasswordHash, verifyPassword } from "./password";
+
+// The lowest allowed cost keeps the suite fast
+process.env.PASSWORD_HASH_COST = "10";
+
+describe("password hashing", () => {
+  it("verifies the password a hash was made from", async () => {
+    const stored = await hashPassword("correct horse battery staple");
+
+    assert.ok(isPasswordHash(stored));
+    assert.ok(!stored.includes("correct horse"));
+    assert.deepEqual(await verifyPassword("correct horse battery staple", stored), { valid: true, needsRehash: false });
+  });
+
+  it("rejects a wrong password", async () => {
+    const stored = await hashPassword("correct horse battery staple");
+
+    assert.deepEqual(await verifyPassword("Correct horse battery staple", stored), { valid: false, needsRehash: false });
+  });
+
+  it("salts every hash", async () => {
+    assert.notEqual(await hashPassword("same password"), await hashPassword("same password"));
+  });
+
+  it("asks for a rehash once the configured cost goes up", async () => {
+    const stored = await hashPassword("hunter22");
+    process.env.PASSWORD_HASH_COST = "11";
+    try {
+      assert.deepEqual(await verifyPassword("hunter22", stored), { valid: true, needsRehash: true });
+      assert.equal((await verifyPassword("hunter2", stored)).needsRehash, false);
+    } finally {
+      process.env.PASSWORD_HASH_COST = "10";
+    }
+  });
+
+  it("accepts legacy plaintext rows and flags them for rehashing", async () => {
+    assert.deepEqual(await verifyPassword("plain-old", "plain-old"), { valid: true, needsRehash: true });
+    assert.deepEqual(await verifyPassword("plain-new", "plain-old"), { valid: false, needsRehash: false });
+  });
+
+  it("rejects malformed hashes", async () => {
+    assert.deepEqual(await verifyPassword("anything", "scrypt$x$8$1$salt$key"), { valid: false, needsRehash: false });
+    assert.deepEqual(await verifyPassword("anything", "scrypt$10$8$1$$"), { valid: false, needsRehash: false });
+  });
+});
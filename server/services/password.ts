@@ -0,0 +1,82 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+
+const HASH_PREFIX = "scrypt";
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+
+// Cost is expressed as log2(N). Raising PASSWORD_HASH_COST only affects new
+// hashes; existing ones are upgraded the next time their owner logs in.
+const DEFAULT_COST = 15;
+const MIN_COST = 10;
+const MAX_COST = 20;
+
+function getCost(): number {
+  const configured = parseInt(process.env.PASSWORD_HASH_COST || "", 10);
+  if (isNaN(configured)) {
+    return DEFAULT_COST;
+  }
+  return Math.min(Math.max(configured, MIN_COST), MAX_COST);
+}
+
+function deriveKey(password: string, salt: Buffer, cost: number, r: number, p: number): Promise<Buffer> {
+  const N = 2 ** cost;
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N, r, p, maxmem: 256 * N * r }, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+}
+
+export interface PasswordVerification {
+  valid: boolean;
+  needsRehash: boolean;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const cost = getCost();
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, cost, BLOCK_SIZE, PARALLELIZATION);
+  return [
+    HASH_PREFIX,
+    cost,
+    BLOCK_SIZE,
+    PARALLELIZATION,
+    salt.toString("base64"),
+    key.toString("base64"),
+  ].join("$");
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<PasswordVerification> {
+  if (!isPasswordHash(stored)) {
+    // Legacy rows hold the plaintext password; compare in constant time and
+    // flag for rehashing so the row is upgraded on this login.
+    const expected = Buffer.from(stored);
+    const actual = Buffer.from(password);
+    const valid = expected.length === actual.length && timingSafeEqual(expected, actual);
+    return { valid, needsRehash: valid };
+  }
+
+  const [, costStr, rStr, pStr, saltStr, keyStr] = stored.split("$");
+  const cost = parseInt(costStr, 10);
+  const r = parseInt(rStr, 10);
+  const p = parseInt(pStr, 10);
+  if ([cost, r, p].some(isNaN) || !saltStr || !keyStr) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const expected = Buffer.from(keyStr, "base64");
+  const actual = await deriveKey(password, Buffer.from(saltStr, "base64"), cost, r, p);
+  const valid = expected.length === actual.length && timingSafeEqual(expected, actual);
+
+  return {
+    valid,
+    needsRehash: valid && (cost < getCost() || r !== BLOCK_SIZE || p !== PARALLELIZATION),
+  };
+}
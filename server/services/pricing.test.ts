@@ -0,0 +1,128 @@
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { CreateOrderRequest, DiscountCode, Product } from "@shared/schema";
+import type { ShippingRate } from "./shipping";
+
+// Clients for these are created on import; nothing is sent to either service
+process.env.STRIPE_SECRET_KEY ||= "sk_test_pricing";
+process.env.EASYPOST_API_KEY ||= "test_pricing";
+
+const GROUND: ShippingRate = { carrier: "USPS", service: "GroundAdvantage", rate: 8.5, estimatedDays: 4, trackingAvailable: true };
+
+const PRODUCTS = [
+  { id: 1, name: "Trail cap", price: "20.00", stock: 10, reserved: 0 },
+  { id: 2, name: "Water bottle", price: "12.50", stock: 3, reserved: 2 },
+] as Product[];
+
+function request(fields: Partial<CreateOrderRequest> = {}): CreateOrderRequest {
+  return {
+    items: [{ productId: 1, quantity: 2 }],
+    shippingAddress: {
+      firstName: "Ada",
+      lastName: "Hiker",
+      address1: "1 Main St",
+      city: "Napa",
+      state: "CA",
+      postalCode: "94559",
+      country: "US",
+      phone: "7075550100",
+    },
+    shippingRate: { carrier: "USPS", service: "GroundAdvantage" },
+    ...fields,
+  };
+}
+
+describe("priceOrder", () => {
+  let priceOrder: typeof import("./pricing").priceOrder;
+  let discountCodes: Record<string, Partial<DiscountCode>>;
+
+  before(async () => {
+    ({ priceOrder } = await import("./pricing"));
+    const { storage } = await import("../storage");
+    const { shippingService } = await import("./shipping");
+
+    mock.method(storage, "getProductsByIds", async (ids: number[]) =>
+      PRODUCTS.filter((product) => ids.includes(product.id))
+    );
+    mock.method(storage, "getDiscountCodeByCode", async (code: string) => discountCodes[code.toUpperCase()]);
+    mock.method(shippingService, "quoteOrder", async () => [GROUND]);
+  });
+
+  beforeEach(() => {
+    discountCodes = {};
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it("adds up lines, shipping and California sales tax in cents", async () => {
+    const result = await priceOrder(request());
+
+    assert.equal(result.status, "priced");
+    if (result.status !== "priced") return;
+    assert.equal(result.breakdown.subtotal, 4000);
+    assert.equal(result.breakdown.shipping, 850);
+    assert.equal(result.breakdown.tax, 310); // 7.75% of $40, shipping untaxed
+    assert.equal(result.breakdown.total, 5160);
+    assert.equal(result.breakdown.priceChanged, false);
+  });
+
+  it("charges no tax outside California", async () => {
+    const result = await priceOrder(request({ shippingAddress: { ...request().shippingAddress, state: "OR" } }));
+
+    assert.equal(result.status === "priced" && result.breakdown.tax, 0);
+  });
+
+  it("flags lines whose price changed since the cart was filled", async () => {
+    const result = await priceOrder(request({ items: [{ productId: 1, quantity: 1, unitPrice: "18.00" }] }));
+
+    assert.equal(result.status, "priced");
+    if (result.status !== "priced") return;
+    assert.equal(result.breakdown.priceChanged, true);
+    assert.equal(result.breakdown.lines[0].previousUnitPrice, 1800);
+    assert.equal(result.breakdown.lines[0].unitPrice, 2000);
+  });
+
+  it("applies a discount before tax", async () => {
+    discountCodes.TRAIL10 = { code: "TRAIL10", isActive: true, percentOff: 10, amountOff: null, expiresAt: null, minimumSubtotal: null };
+    const result = await priceOrder(request({ discountCode: "trail10" }));
+
+    assert.equal(result.status, "priced");
+    if (result.status !== "priced") return;
+    assert.equal(result.breakdown.discount, 400);
+    assert.equal(result.breakdown.tax, 279); // 7.75% of $36
+    assert.equal(result.breakdown.total, 4000 - 400 + 850 + 279);
+  });
+
+  it("never discounts more than the subtotal", async () => {
+    discountCodes.BIG = { code: "BIG", isActive: true, percentOff: null, amountOff: "100.00", expiresAt: null, minimumSubtotal: null };
+    const result = await priceOrder(request({ discountCode: "BIG" }));
+
+    assert.equal(result.status === "priced" && result.breakdown.discount, 4000);
+  });
+
+  it("rejects unknown, expired and under-minimum discount codes", async () => {
+    discountCodes.OLD = { code: "OLD", isActive: true, percentOff: 10, expiresAt: new Date(Date.now() - 1000) };
+    discountCodes.BIGSPEND = { code: "BIGSPEND", isActive: true, percentOff: 10, expiresAt: null, minimumSubtotal: "100.00" };
+
+    for (const code of ["NOPE", "OLD", "BIGSPEND"]) {
+      assert.equal((await priceOrder(request({ discountCode: code }))).status, "invalid_discount", code);
+    }
+  });
+
+  it("reports products that are missing or short of stock", async () => {
+    assert.deepEqual(await priceOrder(request({ items: [{ productId: 99, quantity: 1 }] })), {
+      status: "unavailable",
+      productIds: [99],
+    });
+    // Two of the three bottles are held by other orders
+    assert.equal((await priceOrder(request({ items: [{ productId: 2, quantity: 2 }] }))).status, "out_of_stock");
+  });
+
+  it("refuses a shipping service that is no longer quoted", async () => {
+    const result = await priceOrder(request({ shippingRate: { carrier: "UPS", service: "NextDayAir" } }));
+
+    assert.deepEqual(result, { status: "rate_unavailable", rates: [GROUND] });
+  });
+});
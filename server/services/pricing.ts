@@ -0,0 +1,142 @@
+import { storage } from "../storage";
+import { shippingService, type ShippingRate } from "./shipping";
+import { toCents, fromCents } from "./stripe";
+import type { CreateOrderRequest, DiscountCode, Product } from "@shared/schema";
+import type { PriceBreakdown, PriceLine } from "@shared/pricing";
+
+// We only collect sales tax on orders shipping within California, at the Napa
+// rate unless overridden. Shipping charges are not taxable there.
+const SALES_TAX_STATES = ["CA", "CALIFORNIA"];
+const SALES_TAX_RATE = parseFloat(process.env.SALES_TAX_RATE || "") || 0.0775;
+
+export type PricingResult =
+  | { status: "priced"; breakdown: PriceBreakdown; products: Product[] }
+  | { status: "unavailable"; productIds: number[] }
+  | { status: "out_of_stock"; products: Product[] }
+  | { status: "invalid_discount"; message: string }
+  | { status: "rate_unavailable"; rates: ShippingRate[] };
+
+async function findDiscountCode(
+  code: string,
+  subtotal: number
+): Promise<{ discountCode: DiscountCode } | { message: string }> {
+  const discountCode = await storage.getDiscountCodeByCode(code);
+  if (!discountCode || !discountCode.isActive || (discountCode.expiresAt && discountCode.expiresAt < new Date())) {
+    return { message: `${code.toUpperCase()} is not a valid discount code` };
+  }
+  if (discountCode.minimumSubtotal && subtotal < toCents(parseFloat(discountCode.minimumSubtotal))) {
+    return {
+      message: `${discountCode.code} needs a subtotal of at least $${parseFloat(discountCode.minimumSubtotal).toFixed(2)}`,
+    };
+  }
+  return { discountCode };
+}
+
+function getDiscountAmount(discountCode: DiscountCode, subtotal: number): number {
+  if (discountCode.percentOff) {
+    return Math.round(subtotal * discountCode.percentOff / 100);
+  }
+  if (discountCode.amountOff) {
+    return Math.min(toCents(parseFloat(discountCode.amountOff)), subtotal);
+  }
+  return 0;
+}
+
+// Works out what an order costs from current product prices, a fresh shipping
+// quote, the discount code and tax. Nothing the browser says about price is
+// used except to flag lines whose price has changed since the cart was filled.
+export async function priceOrder(request: CreateOrderRequest): Promise<PricingResult> {
+  const quantities = new Map<number, number>();
+  const cartPrices = new Map<number, number>();
+  for (const item of request.items) {
+    quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity);
+    if (item.unitPrice !== undefined) {
+      cartPrices.set(item.productId, toCents(parseFloat(item.unitPrice)));
+    }
+  }
+
+  const products = await storage.getProductsByIds(Array.from(quantities.keys()));
+  if (products.length !== quantities.size) {
+    const found = new Set(products.map((product) => product.id));
+    return {
+      status: "unavailable",
+      productIds: Array.from(quantities.keys()).filter((id) => !found.has(id)),
+    };
+  }
+
+  const outOfStock = products.filter((product) => product.stock - product.reserved < quantities.get(product.id)!);
+  if (outOfStock.length > 0) {
+    return { status: "out_of_stock", products: outOfStock };
+  }
+
+  const lines: PriceLine[] = products.map((product) => {
+    const quantity = quantities.get(product.id)!;
+    const unitPrice = toCents(parseFloat(product.price));
+    const cartPrice = cartPrices.get(product.id);
+    return {
+      productId: product.id,
+      name: product.name,
+      quantity,
+      unitPrice,
+      lineTotal: unitPrice * quantity,
+      ...(cartPrice !== undefined && cartPrice !== unitPrice ? { previousUnitPrice: cartPrice } : {}),
+    };
+  });
+  const subtotal = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+
+  let discountCode: DiscountCode | null = null;
+  if (request.discountCode) {
+    const found = await findDiscountCode(request.discountCode, subtotal);
+    if ("message" in found) {
+      return { status: "invalid_discount", message: found.message };
+    }
+    discountCode = found.discountCode;
+  }
+  const discount = discountCode ? getDiscountAmount(discountCode, subtotal) : 0;
+
+  const rates = await shippingService.quoteOrder(request.shippingAddress);
+  const rate = rates.find(
+    (candidate) =>
+      candidate.carrier === request.shippingRate.carrier && candidate.service === request.shippingRate.service
+  );
+  if (!rate) {
+    return { status: "rate_unavailable", rates };
+  }
+  const shipping = toCents(rate.rate);
+
+  const state = request.shippingAddress.state.trim().toUpperCase();
+  const taxRate = SALES_TAX_STATES.includes(state) ? SALES_TAX_RATE : 0;
+  const tax = Math.round((subtotal - discount) * taxRate);
+
+  return {
+    status: "priced",
+    products,
+    breakdown: {
+      lines,
+      subtotal,
+      discountCode: discountCode?.code ?? null,
+      discount,
+      shippingCarrier: rate.carrier,
+      shippingService: rate.service,
+      shipping,
+      taxRate,
+      tax,
+      total: subtotal - discount + shipping + tax,
+      priceChanged: lines.some((line) => line.previousUnitPrice !== undefined),
+    },
+  };
+}
+
+// Column values for an order priced by priceOrder
+export function toOrderAmounts(breakdown: PriceBreakdown) {
+  return {
+    subtotal: fromCents(breakdown.subtotal),
+    discountCode: breakdown.discountCode,
+    discountAmount: fromCents(breakdown.discount),
+    shippingCost: fromCents(breakdown.shipping),
+    shippingCarrier: breakdown.shippingCarrier,
+    shippingService: breakdown.shippingService,
+    taxAmount: fromCents(breakdown.tax),
+    total: fromCents(breakdown.total),
+  };
+}
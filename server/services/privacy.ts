@@ -0,0 +1,93 @@
+import { storage } from "../storage";
+import type { User } from "@shared/schema";
+
+// Assembles everything we hold about a user for a "Download my data" request
+export async function buildDataExport(user: User) {
+  const [
+    registrations,
+    orders,
+    conversations,
+    credentials,
+    waitlistEntry,
+    eventWaitlistEntries,
+    waiverAcceptances,
+    emergencyInfo,
+  ] = await Promise.all([
+    storage.getUserRegistrations(user.id),
+    storage.getUserOrders(user.id),
+    storage.getUserConversations(user.id),
+    storage.getUserCredentials(user.id),
+    storage.getWaitlistEntry(user.email),
+    storage.getUserEventWaitlistEntries(user.id),
+    storage.getUserWaiverAcceptances(user.id),
+    storage.getUserEmergencyInfo(user.id),
+  ]);
+  const emergencyInfoByRegistration = new Map(emergencyInfo.map((info) => [info.registrationId, info]));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      pendingEmail: user.pendingEmail,
+      isVerified: user.isVerified,
+      roles: user.roles,
+      displayName: user.displayName,
+      phone: user.phone,
+      emergencyContactName: user.emergencyContactName,
+      emergencyContactPhone: user.emergencyContactPhone,
+      experienceLevel: user.experienceLevel,
+      avatarUrl: user.avatarUrl,
+      twoFactorEnabledAt: user.totpEnabledAt,
+    },
+    // Public keys and counters are omitted; they identify the device, not the person
+    passkeys: credentials.map(({ name, deviceType, createdAt, lastUsedAt }) => ({
+      name,
+      deviceType,
+      createdAt,
+      lastUsedAt,
+    })),
+    registrations: await Promise.all(
+      registrations.map(async (registration) => {
+        const event = await storage.getEvent(registration.eventId);
+        const info = emergencyInfoByRegistration.get(registration.id);
+        return {
+          ...registration,
+          emergencyContactName: info?.emergencyContactName ?? null,
+          emergencyContactPhone: info?.emergencyContactPhone ?? null,
+          medicalNotes: info?.medicalNotes ?? null,
+          event: event && {
+            id: event.id,
+            title: event.title,
+            location: event.location,
+            date: event.date,
+          },
+        };
+      })
+    ),
+    eventWaitlists: await Promise.all(
+      eventWaitlistEntries.map(async (entry) => {
+        const event = await storage.getEvent(entry.eventId);
+        return {
+          ...entry,
+          event: event && { id: event.id, title: event.title, date: event.date },
+        };
+      })
+    ),
+    waiverAcceptances,
+    orders: await Promise.all(
+      orders.map(async (order) => ({
+        ...order,
+        items: await storage.getOrderItems(order.id),
+      }))
+    ),
+    conversations: await Promise.all(
+      conversations.map(async (conversation) => ({
+        ...conversation,
+        messages: await storage.getConversationMessages(conversation.id),
+      }))
+    ),
+    waitlist: waitlistEntry ?? null,
+  };
+}
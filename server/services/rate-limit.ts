@@ -0,0 +1,42 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+// Fixed-window limiter kept in process memory. Good enough for a single
+// instance; counters reset when the server restarts.
+export class RateLimiter {
+  private hits = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  consume(key: string): RateLimitResult {
+    const now = Date.now();
+    const entry = this.hits.get(key);
+
+    if (!entry || entry.resetAt <= now) {
+      this.hits.set(key, { count: 1, resetAt: now + this.windowMs });
+      this.prune(now);
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    if (entry.count >= this.limit) {
+      return { allowed: false, retryAfterMs: entry.resetAt - now };
+    }
+
+    entry.count++;
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  reset(key: string) {
+    this.hits.delete(key);
+  }
+
+  private prune(now: number) {
+    for (const [key, entry] of Array.from(this.hits)) {
+      if (entry.resetAt <= now) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
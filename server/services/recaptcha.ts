@@ -0,0 +1,43 @@
+const VERIFY_URL = "https://www.google.com/recaptcha/api/siteverify";
+
+let warnedAboutMissingSecret = false;
+
+// Without RECAPTCHA_SECRET_KEY the check runs as an offline stub that accepts
+// any non-empty token, so the challenge flow can be exercised locally. In
+// production a missing key fails every check rather than letting bots through.
+export async function verifyCaptcha(token: unknown, remoteIp?: string): Promise<boolean> {
+  if (typeof token !== "string" || !token) {
+    return false;
+  }
+
+  const secret = process.env.RECAPTCHA_SECRET_KEY;
+  if (!secret) {
+    const production = process.env.NODE_ENV === "production";
+    if (!warnedAboutMissingSecret) {
+      if (production) {
+        console.error("ERROR: RECAPTCHA_SECRET_KEY must be set in production. CAPTCHA checks will fail.");
+      } else {
+        console.warn("Warning: Missing RECAPTCHA_SECRET_KEY. CAPTCHA verification is stubbed.");
+      }
+      warnedAboutMissingSecret = true;
+    }
+    return !production;
+  }
+
+  try {
+    const response = await fetch(VERIFY_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        secret,
+        response: token,
+        ...(remoteIp ? { remoteip: remoteIp } : {}),
+      }),
+    });
+    const result = await response.json();
+    return result.success === true;
+  } catch (error: any) {
+    console.error("reCAPTCHA verification error:", error);
+    return false;
+  }
+}
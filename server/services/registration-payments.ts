@@ -0,0 +1,209 @@
+import type Stripe from "stripe";
+import { storage } from "../storage";
+import { stripe, toCents, fromCents } from "./stripe";
+import { promoteFromWaitlist } from "./event-waitlist";
+import { sendTicket } from "./tickets";
+import { getRefundPercent } from "@shared/refund-policy";
+import type { Event, Registration, User } from "@shared/schema";
+
+// How long a pending paid registration keeps its spot while the member pays
+export const REGISTRATION_HOLD_MS = (parseInt(process.env.REGISTRATION_HOLD_MINUTES || "", 10) || 15) * 60 * 1000;
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export const REGISTRATION_PAYMENT_TYPE = "event_registration";
+
+export async function createRegistrationPayment(
+  registration: Registration,
+  event: Event,
+  user: User
+): Promise<Stripe.PaymentIntent> {
+  const paymentIntent = await stripe.paymentIntents.create(
+    {
+      amount: toCents(event.price),
+      currency: "usd",
+      description: `Registration: ${event.title}`,
+      receipt_email: user.email,
+      automatic_payment_methods: {
+        enabled: true,
+      },
+      metadata: {
+        type: REGISTRATION_PAYMENT_TYPE,
+        registrationId: String(registration.id),
+        eventId: String(event.id),
+        userId: String(user.id),
+      },
+    },
+    { idempotencyKey: `registration-${registration.id}` }
+  );
+
+  await storage.setRegistrationPaymentIntent(registration.id, paymentIntent.id);
+  return paymentIntent;
+}
+
+export async function handleRegistrationPaymentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+  const registration = await storage.confirmRegistrationPayment(
+    paymentIntent.id,
+    fromCents(paymentIntent.amount_received)
+  );
+  if (registration) {
+    console.log(`Registration ${registration.id} confirmed by payment ${paymentIntent.id}`);
+    await sendTicket(registration);
+    return;
+  }
+
+  // The member cancelled, or the hold lapsed and the spot went to someone
+  // else, while the payment was in flight
+  const released = await storage.getRegistrationByPaymentIntent(paymentIntent.id);
+  if (released && released.status !== "confirmed" && !released.refundId) {
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: paymentIntent.id,
+        metadata: { type: REGISTRATION_PAYMENT_TYPE, registrationId: String(released.id) },
+      },
+      { idempotencyKey: `registration-refund-${released.id}` }
+    );
+    await storage.recordRegistrationRefund(released.id, fromCents(refund.amount), refund.id);
+    console.log(`Refunded late payment ${paymentIntent.id} for ${released.status} registration ${released.id}`);
+  }
+}
+
+// Refunds a cancelled paid registration according to the event's refund
+// policy, measured from when the registration was cancelled. Returns the
+// registration unchanged when nothing is due.
+export async function refundCancelledRegistration(
+  registration: Registration,
+  event: Event,
+  percent = getRefundPercent(event.refundPolicy, event.date, registration.cancelledAt ?? new Date())
+): Promise<Registration> {
+  if (!registration.paymentIntentId || !registration.amountPaid || registration.refundId) {
+    return registration;
+  }
+
+  const amount = Math.round(toCents(parseFloat(registration.amountPaid)) * percent / 100);
+  if (amount === 0) {
+    return registration;
+  }
+
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: registration.paymentIntentId,
+      amount,
+      reason: "requested_by_customer",
+      metadata: { type: REGISTRATION_PAYMENT_TYPE, registrationId: String(registration.id) },
+    },
+    { idempotencyKey: `registration-refund-${registration.id}` }
+  );
+  return await storage.recordRegistrationRefund(registration.id, fromCents(refund.amount), refund.id);
+}
+
+// Cancels the event and every registration on it. Members who paid are
+// refunded in full whatever the refund policy says, since we called it off.
+export async function cancelEventAndRefund(event: Event, detachFromSeries = true): Promise<Registration[]> {
+  if (!(await storage.cancelEvent(event.id, detachFromSeries))) {
+    return [];
+  }
+
+  const cancelled: Registration[] = [];
+  for (const registration of await storage.cancelEventRegistrations(event.id)) {
+    try {
+      if (registration.paymentIntentId && !registration.amountPaid) {
+        // If this payment succeeds anyway, the webhook refunds it
+        await stripe.paymentIntents.cancel(registration.paymentIntentId);
+        cancelled.push(registration);
+      } else {
+        cancelled.push(await refundCancelledRegistration(registration, event, 100));
+      }
+    } catch (error) {
+      console.error(`Failed to refund registration ${registration.id} for cancelled event ${event.id}:`, error);
+      cancelled.push(registration);
+    }
+  }
+  return cancelled;
+}
+
+// Settles registrations cancelled on the member's behalf, as when their
+// account is deleted: unfinished payments are stopped, paid ones refunded under
+// the event's policy and the freed spots offered to the waitlist. Returns how
+// many were refunded.
+export async function settleCancelledRegistrations(registrations: Registration[]): Promise<number> {
+  let refunded = 0;
+  for (const registration of registrations) {
+    try {
+      if (registration.paymentIntentId && !registration.amountPaid) {
+        // If this payment succeeds anyway, the webhook refunds it
+        await stripe.paymentIntents.cancel(registration.paymentIntentId);
+      } else {
+        const event = await storage.getEvent(registration.eventId);
+        if (event && (await refundCancelledRegistration(registration, event)).refundId) {
+          refunded++;
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to settle payment for cancelled registration ${registration.id}:`, error);
+    }
+  }
+
+  for (const eventId of Array.from(new Set(registrations.map((registration) => registration.eventId)))) {
+    await promoteFromWaitlist(eventId);
+  }
+  return refunded;
+}
+
+export async function handleRegistrationPaymentCanceled(paymentIntent: Stripe.PaymentIntent) {
+  const registration = await storage.getRegistrationByPaymentIntent(paymentIntent.id);
+  if (registration && (await storage.expireRegistration(registration.id))) {
+    await promoteFromWaitlist(registration.eventId);
+  }
+}
+
+// Releases spots held by pending registrations whose payment window has passed.
+// The PaymentIntent is cancelled first so a late payment cannot succeed for a
+// spot that has already been given away.
+export async function releaseExpiredHolds(): Promise<number> {
+  const expired = await storage.getExpiredRegistrationHolds();
+  let released = 0;
+
+  for (const registration of expired) {
+    try {
+      if (registration.paymentIntentId) {
+        const paymentIntent = await stripe.paymentIntents.retrieve(registration.paymentIntentId);
+        if (paymentIntent.status === "succeeded") {
+          // The webhook was missed; honour the payment
+          await handleRegistrationPaymentSucceeded(paymentIntent);
+          continue;
+        }
+        if (paymentIntent.status === "processing") {
+          // Bank payments can take a while; wait for the webhook
+          continue;
+        }
+        if (paymentIntent.status !== "canceled") {
+          await stripe.paymentIntents.cancel(paymentIntent.id);
+        }
+      }
+
+      if (await storage.expireRegistration(registration.id)) {
+        released++;
+        await promoteFromWaitlist(registration.eventId);
+      }
+    } catch (error) {
+      console.error(`Failed to release registration hold ${registration.id}:`, error);
+    }
+  }
+
+  return released;
+}
+
+export function startRegistrationHoldSweeper() {
+  const timer = setInterval(() => {
+    releaseExpiredHolds()
+      .then((released) => {
+        if (released > 0) {
+          console.log(`Released ${released} expired registration holds`);
+        }
+      })
+      .catch((error) => console.error("Registration hold sweep failed:", error));
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
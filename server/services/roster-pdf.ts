@@ -0,0 +1,87 @@
+import PDFDocument from "pdfkit";
+import type { EmergencyRosterEntry } from "../storage";
+import { EVENT_TIME_ZONE } from "@shared/timezone";
+import type { Event } from "@shared/schema";
+
+const MARGIN = 40;
+const CHECKBOX_SIZE = 12;
+
+function formatPacific(date: Date, options: Intl.DateTimeFormatOptions): string {
+  return date.toLocaleString("en-US", { timeZone: EVENT_TIME_ZONE, ...options });
+}
+
+function describeWaiver(entry: EmergencyRosterEntry): string {
+  if (!entry.acceptance) {
+    return "WAIVER NOT SIGNED";
+  }
+  const signedOn = formatPacific(entry.acceptance.signedAt, { dateStyle: "medium" });
+  return `Waiver v${entry.waiverVersion} signed "${entry.acceptance.signature}" on ${signedOn}`;
+}
+
+// Letter-size sheet with one block per attendee and a box to tick at the
+// trailhead. Missing details are printed in red so they stand out on paper.
+export function renderRosterPdf(event: Event, entries: EmergencyRosterEntry[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: MARGIN, info: { Title: `${event.title} roster` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const width = doc.page.width - MARGIN * 2;
+
+    doc.font("Helvetica-Bold").fontSize(18).text(event.title);
+    doc.font("Helvetica").fontSize(11)
+      .text(formatPacific(event.date, { dateStyle: "full", timeStyle: "short" }))
+      .text(event.location)
+      .moveDown(0.5);
+    doc.fontSize(9).fillColor("gray")
+      .text(`${entries.length} confirmed. Printed ${formatPacific(new Date(), { dateStyle: "medium", timeStyle: "short" })}. Confidential: contains medical information.`)
+      .fillColor("black")
+      .moveDown();
+
+    if (entries.length === 0) {
+      doc.fontSize(11).text("Nobody is registered yet.");
+    }
+
+    for (const entry of entries) {
+      // Keep each attendee's block together on one page
+      if (doc.y > doc.page.height - MARGIN - 90) {
+        doc.addPage();
+      }
+
+      const top = doc.y;
+      doc.rect(MARGIN, top + 1, CHECKBOX_SIZE, CHECKBOX_SIZE).stroke();
+      const left = MARGIN + CHECKBOX_SIZE + 10;
+      const textWidth = width - CHECKBOX_SIZE - 10;
+
+      const name = entry.user.displayName || entry.user.username;
+      doc.font("Helvetica-Bold").fontSize(12)
+        .text(entry.user.phone ? `${name}  ·  ${entry.user.phone}` : name, left, top, { width: textWidth });
+
+      doc.font("Helvetica").fontSize(10);
+      if (entry.emergencyInfo) {
+        doc.text(
+          `Emergency contact: ${entry.emergencyInfo.emergencyContactName}, ${entry.emergencyInfo.emergencyContactPhone}`,
+          left,
+          doc.y,
+          { width: textWidth }
+        );
+        doc.text(`Medical notes: ${entry.emergencyInfo.medicalNotes || "None given"}`, left, doc.y, { width: textWidth });
+      } else {
+        doc.fillColor("red").text("NO EMERGENCY CONTACT ON FILE", left, doc.y, { width: textWidth }).fillColor("black");
+      }
+
+      doc.fillColor(entry.acceptance ? "black" : "red")
+        .text(describeWaiver(entry), left, doc.y, { width: textWidth })
+        .fillColor("black");
+
+      doc.moveDown(0.4);
+      doc.moveTo(MARGIN, doc.y).lineTo(MARGIN + width, doc.y).strokeColor("#cccccc").stroke().strokeColor("black");
+      doc.moveDown(0.6);
+      doc.x = MARGIN;
+    }
+
+    doc.end();
+  });
+}
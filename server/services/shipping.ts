@@ -28,6 +28,27 @@ export interface ShippingRate {
   trackingAvailable: boolean;
 }
 
+// Where shop orders ship from
+const STORE_ADDRESS: ShippingAddress = {
+  firstName: "Store",
+  lastName: "Admin",
+  address1: "1234 Store St",
+  city: "Napa",
+  state: "CA",
+  postalCode: "94559",
+  country: "US",
+  phone: "1234567890",
+};
+
+// Products don't record their size yet, so every order is quoted as one
+// standard box
+const DEFAULT_PARCEL = {
+  weight: 1.0,
+  length: 12.0,
+  width: 8.0,
+  height: 6.0,
+};
+
 export class ShippingService {
   async validateAddress(address: ShippingAddress): Promise<ValidatedAddress> {
     try {
@@ -140,6 +161,11 @@ export class ShippingService {
       throw new Error(`Failed to get shipping rates: ${error.message}`);
     }
   }
+
+  // Rates for shipping a shop order from the store to the customer
+  async quoteOrder(toAddress: ShippingAddress): Promise<ShippingRate[]> {
+    return this.getShippingRates(STORE_ADDRESS, toAddress, DEFAULT_PARCEL);
+  }
 }
 
 export const shippingService = new ShippingService();
@@ -0,0 +1,68 @@
+import type Stripe from "stripe";
+import { storage } from "../storage";
+import {
+  REGISTRATION_PAYMENT_TYPE,
+  handleRegistrationPaymentSucceeded,
+  handleRegistrationPaymentCanceled,
+} from "./registration-payments";
+import {
+  ORDER_PAYMENT_TYPE,
+  handleOrderPaymentSucceeded,
+  handleOrderPaymentFailed,
+  handleOrderPaymentCanceled,
+  handleOrderChargeRefunded,
+  handleOrderDispute,
+} from "./order-payments";
+
+async function dispatchStripeEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case "payment_intent.succeeded": {
+      const paymentIntent = event.data.object;
+      if (paymentIntent.metadata.type === REGISTRATION_PAYMENT_TYPE) {
+        await handleRegistrationPaymentSucceeded(paymentIntent);
+      } else if (paymentIntent.metadata.type === ORDER_PAYMENT_TYPE) {
+        await handleOrderPaymentSucceeded(paymentIntent);
+      }
+      break;
+    }
+    case "payment_intent.payment_failed":
+      if (event.data.object.metadata.type === ORDER_PAYMENT_TYPE) {
+        await handleOrderPaymentFailed(event.data.object);
+      }
+      break;
+    case "payment_intent.canceled": {
+      const paymentIntent = event.data.object;
+      if (paymentIntent.metadata.type === REGISTRATION_PAYMENT_TYPE) {
+        await handleRegistrationPaymentCanceled(paymentIntent);
+      } else if (paymentIntent.metadata.type === ORDER_PAYMENT_TYPE) {
+        await handleOrderPaymentCanceled(paymentIntent);
+      }
+      break;
+    }
+    case "charge.refunded":
+      await handleOrderChargeRefunded(event.data.object);
+      break;
+    case "charge.dispute.created":
+    case "charge.dispute.updated":
+    case "charge.dispute.closed":
+      await handleOrderDispute(event.data.object);
+      break;
+  }
+}
+
+// Handles a verified Stripe event at most once. Returns false for a delivery
+// that was already handled. If handling fails the claim is released so
+// Stripe's retry gets another go.
+export async function handleStripeEvent(event: Stripe.Event): Promise<boolean> {
+  if (!(await storage.claimStripeEvent(event.id, event.type))) {
+    return false;
+  }
+
+  try {
+    await dispatchStripeEvent(event);
+  } catch (error) {
+    await storage.releaseStripeEvent(event.id);
+    throw error;
+  }
+  return true;
+}
@@ -0,0 +1,19 @@
+import Stripe from "stripe";
+
+if (!process.env.STRIPE_SECRET_KEY) {
+  console.warn("Warning: Missing STRIPE_SECRET_KEY. Payment features will be disabled.");
+  process.env.STRIPE_SECRET_KEY = '';
+}
+
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2023-10-16",
+});
+
+// Stripe amounts are in cents; the database stores dollars as decimals
+export function toCents(dollars: number): number {
+  return Math.round(dollars * 100);
+}
+
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
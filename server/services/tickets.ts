@@ -0,0 +1,70 @@
+import QRCode from "qrcode";
+import { storage } from "../storage";
+import { mailService } from "./mail";
+import { signTokenExpiringAt, verifyToken } from "./tokens";
+import { EVENT_TIME_ZONE } from "@shared/timezone";
+import type { Event, Registration } from "@shared/schema";
+
+// Tickets keep scanning for a while after the start in case of late sync
+const TICKET_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// The ticket is a signed token naming the registration and its holder. The
+// same registration always yields the same ticket, and a transfer invalidates
+// the old holder's copy because the user no longer matches.
+export function createTicket(registration: Registration, event: Event): string {
+  return signTokenExpiringAt(
+    { purpose: "ticket", userId: registration.userId, registrationId: registration.id },
+    event.date.getTime() + TICKET_GRACE_MS
+  );
+}
+
+const QR_CODE_OPTIONS = { margin: 1, width: 320 };
+
+export async function renderTicketQrCode(ticket: string): Promise<string> {
+  return await QRCode.toDataURL(ticket, QR_CODE_OPTIONS);
+}
+
+// PNG bytes for embedding in email, where data: URLs are blocked
+async function renderTicketQrCodePng(ticket: string): Promise<Buffer> {
+  return await QRCode.toBuffer(ticket, { ...QR_CODE_OPTIONS, type: "png" });
+}
+
+// Returns the registration the ticket admits, if it is still valid
+export async function verifyTicket(ticket: string): Promise<Registration | null> {
+  const payload = verifyToken(ticket, "ticket");
+  if (!payload?.registrationId) {
+    return null;
+  }
+  const registration = await storage.getRegistration(payload.registrationId);
+  if (!registration || registration.status !== "confirmed" || registration.userId !== payload.userId) {
+    return null;
+  }
+  return registration;
+}
+
+export async function sendTicket(
+  registration: Registration,
+  baseUrl = process.env.APP_URL || "http://localhost:5000"
+): Promise<void> {
+  try {
+    const [event, user] = await Promise.all([
+      storage.getEvent(registration.eventId),
+      storage.getUser(registration.userId),
+    ]);
+    if (!event || !user || registration.status !== "confirmed") {
+      return;
+    }
+
+    await mailService.sendTicketEmail(
+      user.email,
+      user.username,
+      event.title,
+      event.date.toLocaleString("en-US", { timeZone: EVENT_TIME_ZONE, dateStyle: "full", timeStyle: "short" }),
+      await renderTicketQrCodePng(createTicket(registration, event)),
+      `${baseUrl}/account#tickets`
+    );
+  } catch (error) {
+    // The ticket is always available from the member's account
+    console.error(`Failed to send ticket for registration ${registration.id}:`, error);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { signToken, signTokenExpiringAt, verifyToken } from "./tokens";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("signed tokens", () => {
+  it("round-trips the payload for the purpose it was issued for", () => {
+    const token = signToken({ purpose: "change-email", userId: 7, email: "new@example.com" }, HOUR_MS);
+    const payload = verifyToken(token, "change-email");
+
+    assert.equal(payload?.userId, 7);
+    assert.equal(payload?.email, "new@example.com");
+  });
+
+  it("rejects a token issued for another purpose", () => {
+    const token = signToken({ purpose: "verify-email", userId: 7 }, HOUR_MS);
+
+    assert.equal(verifyToken(token, "change-email"), null);
+  });
+
+  it("rejects an expired token", () => {
+    const token = signTokenExpiringAt({ purpose: "verify-email", userId: 7 }, Date.now() - 1);
+
+    assert.equal(verifyToken(token, "verify-email"), null);
+  });
+
+  it("rejects a token whose payload was edited", () => {
+    const token = signToken({ purpose: "verify-email", userId: 7 }, HOUR_MS);
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ purpose: "verify-email", userId: 1, exp: Date.now() + HOUR_MS }))
+      .toString("base64url");
+
+    assert.equal(verifyToken(`${forged}.${signature}`, "verify-email"), null);
+  });
+
+  it("rejects malformed tokens", () => {
+    assert.equal(verifyToken("", "ticket"), null);
+    assert.equal(verifyToken("no-signature", "ticket"), null);
+    assert.equal(verifyToken("a.b", "ticket"), null);
+  });
+
+  it("issues the same token for the same payload and expiry", () => {
+    const exp = Date.now() + HOUR_MS;
+    const payload = { purpose: "ticket" as const, userId: 3, registrationId: 9 };
+
+    assert.equal(signTokenExpiringAt(payload, exp), signTokenExpiringAt(payload, exp));
+  });
+});
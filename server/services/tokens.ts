@@ -0,0 +1,55 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type TokenPurpose = "verify-email" | "change-email" | "ticket";
+
+export interface TokenPayload {
+  purpose: TokenPurpose;
+  userId: number;
+  email?: string;
+  registrationId?: number;
+  exp: number;
+}
+
+function getSecret(): string {
+  return process.env.TOKEN_SECRET || process.env.SESSION_SECRET || "your-secret-key";
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+export function signToken(payload: Omit<TokenPayload, "exp">, ttlMs: number): string {
+  return signTokenExpiringAt(payload, Date.now() + ttlMs);
+}
+
+// A fixed expiry makes the token deterministic, so it can be issued again
+// and still match copies handed out earlier.
+export function signTokenExpiringAt(payload: Omit<TokenPayload, "exp">, exp: number): string {
+  const body = Buffer.from(JSON.stringify({ ...payload, exp })).toString("base64url");
+  return `${body}.${sign(body)}`;
+}
+
+// Returns the payload only when the signature matches, the token has not
+// expired and it was issued for the expected purpose.
+export function verifyToken(token: string, purpose: TokenPurpose): TokenPayload | null {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString()) as TokenPayload;
+    if (payload.purpose !== purpose || payload.exp < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateRecoveryCodes, generateTotpSecret, getOtpauthUrl, hashRecoveryCode, verifyTotp } from "./totp";
+
+// The SHA-1 key from the RFC 6238 test vectors, "12345678901234567890", in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("verifyTotp", () => {
+  it("matches the RFC 6238 test vectors", () => {
+    assert.equal(verifyTotp(RFC_SECRET, "287082", 59 * 1000), 1);
+    assert.equal(verifyTotp(RFC_SECRET, "081804", 1111111109 * 1000), 37037036);
+    assert.equal(verifyTotp(RFC_SECRET, "050471", 1111111111 * 1000), 37037037);
+  });
+
+  it("accepts a code one step either side of now", () => {
+    assert.equal(verifyTotp(RFC_SECRET, "081804", 1111111109 * 1000 + 30 * 1000), 37037036);
+    assert.equal(verifyTotp(RFC_SECRET, "081804", 1111111109 * 1000 - 30 * 1000), 37037036);
+    assert.equal(verifyTotp(RFC_SECRET, "081804", 1111111109 * 1000 + 60 * 1000), null);
+  });
+
+  it("tolerates spaces but nothing else", () => {
+    assert.equal(verifyTotp(RFC_SECRET, "287 082", 59 * 1000), 1);
+    assert.equal(verifyTotp(RFC_SECRET, "28708", 59 * 1000), null);
+    assert.equal(verifyTotp(RFC_SECRET, "2870820", 59 * 1000), null);
+    assert.equal(verifyTotp(RFC_SECRET, "28708a", 59 * 1000), null);
+  });
+
+  it("generates 160-bit base32 secrets", () => {
+    assert.match(generateTotpSecret(), /^[A-Z2-7]{32}$/);
+    assert.notEqual(generateTotpSecret(), generateTotpSecret());
+  });
+});
+
+describe("getOtpauthUrl", () => {
+  it("names the issuer and account", () => {
+    const url = new URL(getOtpauthUrl(RFC_SECRET, "hiker@example.com"));
+
+    assert.equal(url.protocol, "otpauth:");
+    assert.equal(url.host, "totp");
+    assert.equal(decodeURIComponent(url.pathname), "/Jesus Walks Napa:hiker@example.com");
+    assert.equal(url.searchParams.get("secret"), RFC_SECRET);
+    assert.equal(url.searchParams.get("issuer"), "Jesus Walks Napa");
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates ten distinct dashed codes", () => {
+    const codes = generateRecoveryCodes();
+
+    assert.equal(codes.length, 10);
+    assert.equal(new Set(codes).size, 10);
+    for (const code of codes) {
+      assert.match(code, /^[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}$/);
+    }
+  });
+
+  it("hashes codes the same however they are cased, spaced or dashed", () => {
+    assert.equal(hashRecoveryCode(" ABCD-ef01-2345-6789 "), hashRecoveryCode("abcd-ef01-2345-6789"));
+    assert.equal(hashRecoveryCode("abcdef0123456789"), hashRecoveryCode("abcd-ef01-2345-6789"));
+    assert.equal(hashRecoveryCode("abcd ef01 2345 6789"), hashRecoveryCode("abcd-ef01-2345-6789"));
+    assert.notEqual(hashRecoveryCode("abcd-ef01-2345-6789"), hashRecoveryCode("abcd-ef01-2345-6788"));
+  });
+});
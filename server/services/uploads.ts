@@ -0,0 +1,33 @@
+import { randomBytes } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+export const UPLOAD_DIR = process.env.UPLOAD_DIR || path.resolve("uploads");
+export const UPLOAD_URL_PREFIX = "/uploads";
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Only raster formats, identified by their leading bytes rather than the
+// declared content type; SVG is excluded because it can carry scripts.
+const IMAGE_SIGNATURES: { extension: string; matches: (data: Buffer) => boolean }[] = [
+  { extension: "jpg", matches: (data) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  { extension: "png", matches: (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { extension: "gif", matches: (data) => data.subarray(0, 4).toString("ascii") === "GIF8" },
+  {
+    extension: "webp",
+    matches: (data) => data.subarray(0, 4).toString("ascii") === "RIFF" && data.subarray(8, 12).toString("ascii") === "WEBP",
+  },
+];
+
+// Stores the image under a random name and returns the URL it is served
+// from, or null when the data is not a supported image
+export async function saveImageUpload(data: Buffer): Promise<string | null> {
+  const format = IMAGE_SIGNATURES.find((signature) => signature.matches(data));
+  if (!format) {
+    return null;
+  }
+
+  const filename = `${randomBytes(16).toString("hex")}.${format.extension}`;
+  await fs.mkdir(UPLOAD_DIR, { recursive: true });
+  await fs.writeFile(path.join(UPLOAD_DIR, filename), data);
+  return `${UPLOAD_URL_PREFIX}/${filename}`;
+}
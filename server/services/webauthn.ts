@@ -0,0 +1,109 @@
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type AuthenticatorTransportFuture,
+  type AuthenticationResponseJSON,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import type { Request } from "express";
+import type { User, UserCredential, InsertUserCredential } from "@shared/schema";
+
+const RP_NAME = process.env.WEBAUTHN_RP_NAME || "Jesus Walks Napa";
+
+export interface RelyingParty {
+  rpID: string;
+  origin: string;
+}
+
+// WEBAUTHN_RP_ID / WEBAUTHN_ORIGIN must be set in production so a spoofed
+// Host header cannot change the expected origin.
+export function getRelyingParty(req: Request): RelyingParty {
+  return {
+    rpID: process.env.WEBAUTHN_RP_ID || req.hostname,
+    origin: process.env.WEBAUTHN_ORIGIN || `${req.protocol}://${req.get("host")}`,
+  };
+}
+
+export class WebAuthnService {
+  async getRegistrationOptions(rp: RelyingParty, user: User, existing: UserCredential[]) {
+    return await generateRegistrationOptions({
+      rpName: RP_NAME,
+      rpID: rp.rpID,
+      userName: user.username,
+      userID: new TextEncoder().encode(String(user.id)),
+      attestationType: "none",
+      excludeCredentials: existing.map((credential) => ({
+        id: credential.credentialId,
+        transports: (credential.transports || undefined) as AuthenticatorTransportFuture[] | undefined,
+      })),
+      authenticatorSelection: {
+        residentKey: "required",
+        userVerification: "preferred",
+      },
+    });
+  }
+
+  async verifyRegistration(
+    rp: RelyingParty,
+    response: RegistrationResponseJSON,
+    expectedChallenge: string
+  ): Promise<Omit<InsertUserCredential, "userId" | "name"> | null> {
+    const { verified, registrationInfo } = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.rpID,
+      requireUserVerification: false,
+    });
+
+    if (!verified || !registrationInfo) {
+      return null;
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = registrationInfo;
+    return {
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey).toString("base64url"),
+      counter: credential.counter,
+      transports: credential.transports || null,
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+    };
+  }
+
+  // No allowCredentials: the browser offers every discoverable passkey for
+  // this site, so the user does not have to type a username first.
+  async getAuthenticationOptions(rp: RelyingParty) {
+    return await generateAuthenticationOptions({
+      rpID: rp.rpID,
+      userVerification: "preferred",
+    });
+  }
+
+  async verifyAuthentication(
+    rp: RelyingParty,
+    response: AuthenticationResponseJSON,
+    expectedChallenge: string,
+    credential: UserCredential
+  ): Promise<{ newCounter: number } | null> {
+    const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.rpID,
+      credential: {
+        id: credential.credentialId,
+        publicKey: new Uint8Array(Buffer.from(credential.publicKey, "base64url")),
+        counter: credential.counter,
+        transports: (credential.transports || undefined) as AuthenticatorTransportFuture[] | undefined,
+      },
+      requireUserVerification: false,
+    });
+
+    return verified ? { newCounter: authenticationInfo.newCounter } : null;
+  }
+}
+
+export const webAuthnService = new WebAuthnService();
@@ -0,0 +1,87 @@
+// Runs against the database in DATABASE_URL and cleans up after itself.
+// Skipped when no database is configured.
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { eq, inArray } from "drizzle-orm";
+import { events, registrationEmergencyInfo, registrations, users, type Event, type User } from "@shared/schema";
+
+const PARALLEL_SIGN_UPS = 8;
+
+describe("createRegistrationWithinCapacity", { skip: !process.env.DATABASE_URL && "DATABASE_URL is not set" }, () => {
+  let db: typeof import("./db").db;
+  let pool: typeof import("./db").pool;
+  let storage: typeof import("./storage").storage;
+  let event: Event;
+  let members: User[];
+
+  before(async () => {
+    ({ db, pool } = await import("./db"));
+    ({ storage } = await import("./storage"));
+
+    const tag = randomBytes(4).toString("hex");
+    members = await Promise.all(
+      Array.from({ length: PARALLEL_SIGN_UPS + 1 }, (_, i) =>
+        storage.createUser({
+          username: `capacity-test-${tag}-${i}`,
+          email: `capacity-test-${tag}-${i}@example.com`,
+          password: "not-a-real-hash",
+        })
+      )
+    );
+    event = await storage.createEvent({
+      title: `Capacity test ${tag}`,
+      description: "Created by storage.test.ts",
+      location: "Nowhere",
+      date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      capacity: 2,
+      price: 0,
+      imageUrl: "",
+    });
+
+    // Take one of the two spots so only one is left
+    const first = await storage.createRegistrationWithinCapacity(
+      { userId: members[0].id, eventId: event.id, status: "confirmed" },
+      participant()
+    );
+    assert.equal(first.status, "created");
+  });
+
+  after(async () => {
+    if (event) {
+      const created = await db.select({ id: registrations.id }).from(registrations).where(eq(registrations.eventId, event.id));
+      const ids = created.map((registration) => registration.id);
+      if (ids.length > 0) {
+        await db.delete(registrationEmergencyInfo).where(inArray(registrationEmergencyInfo.registrationId, ids));
+        await db.delete(registrations).where(inArray(registrations.id, ids));
+      }
+      await db.delete(events).where(eq(events.id, event.id));
+    }
+    if (members?.length) {
+      await db.delete(users).where(inArray(users.id, members.map((member) => member.id)));
+    }
+    await pool.end();
+  });
+
+  it("accepts exactly one of several parallel sign-ups for the last spot", async () => {
+    const results = await Promise.all(
+      members.slice(1).map((member) =>
+        storage.createRegistrationWithinCapacity(
+          { userId: member.id, eventId: event.id, status: "confirmed" },
+          participant()
+        )
+      )
+    );
+
+    assert.equal(results.filter((result) => result.status === "created").length, 1);
+    assert.equal(results.filter((result) => result.status === "full").length, PARALLEL_SIGN_UPS - 1);
+    assert.equal(await storage.countActiveRegistrations(event.id), event.capacity);
+  });
+});
+
+function participant() {
+  return {
+    acceptance: null,
+    emergencyInfo: { emergencyContactName: "Test Contact", emergencyContactPhone: "7075550100", medicalNotes: null },
+  };
+}
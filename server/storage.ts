@@ -1,10 +1,121 @@
-import { users, events, registrations, waitlist, products, orders, orderItems, modelConfigs, conversations, messages } from "@shared/schema";
-import type { User, Event, Registration, Waitlist, Product, Order, OrderItem, InsertUser, InsertEvent, InsertRegistration, InsertWaitlist, InsertProduct, InsertOrder, InsertOrderItem, ModelConfig, InsertModelConfig, Conversation, InsertConversation, Message, InsertMessage } from "@shared/schema";
+import { users, eventSeries, eventWaitlistEntries, waivers, waiverAcceptances, registrationEmergencyInfo, erasureRequests, privacyAuditLog, passwordResetTokens, userCredentials, recoveryCodes, appSettings, events, registrations, waitlist, products, orders, orderItems, inventoryMovements, discountCodes, stripeEvents, modelConfigs, conversations, messages } from "@shared/schema";
+import type { User, Waiver, InsertWaiver, WaiverAcceptance, RegistrationEmergencyInfo, EventSeries, InsertEventSeries, UpdateEventSeries, UpdateEvent, EventWaitlistEntry, UpdateProfile, ErasureRequest, PrivacyAuditLogEntry, InsertPrivacyAuditLog, PasswordResetToken, UserCredential, InsertUserCredential, Event, Registration, Waitlist, Product, Order, OrderItem, DiscountCode, InventoryMovement, InsertUser, InsertEvent, InsertRegistration, InsertWaitlist, InsertProduct, InsertOrder, InsertOrderItem, ModelConfig, InsertModelConfig, Conversation, InsertConversation, Message, InsertMessage } from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, and, or, gt, lt, isNull, isNotNull, inArray, count, asc, desc, sql } from "drizzle-orm";
 import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import { pool } from "./db";
+import type { Role } from "@shared/permissions";
+
+export interface StoredSession {
+  sid: string;
+  sess: Record<string, any>;
+  expire: Date;
+}
+
+// Row counts recorded in the privacy audit log when an account is anonymized
+export interface AnonymizationSummary {
+  ordersAnonymized: number;
+  registrationsCancelled: number;
+  conversationsDeleted: number;
+  messagesDeleted: number;
+  credentialsDeleted: number;
+  recoveryCodesDeleted: number;
+  waitlistEntriesDeleted: number;
+  eventWaitlistEntriesDeleted: number;
+  waiverAcceptancesScrubbed: number;
+  emergencyInfoDeleted: number;
+}
+
+// Registrations released by anonymizeUser still need their payments settled,
+// and events where a waitlist offer was withdrawn need it passed on
+export interface AnonymizationResult {
+  summary: AnonymizationSummary;
+  cancelledRegistrations: Registration[];
+  withdrawnOfferEventIds: number[];
+}
+
+// An event with the counts shown on the admin events screen
+export type EventSummary = Event & {
+  registeredCount: number;
+  waitlistCount: number;
+};
+
+export type CapacityCheckedEventUpdate =
+  | { status: "updated"; previous: Event; event: Event }
+  | { status: "capacity_too_low"; taken: number }
+  | { status: "not_found" };
+
+export type RegistrationTransferResult =
+  | { status: "transferred"; registration: Registration }
+  | { status: "duplicate" }
+  | { status: "unavailable" };
+
+// Written in the same transaction as the registration it belongs to
+export interface ParticipantRecord {
+  acceptance: { waiverId: number; signature: string; ipAddress: string | null } | null;
+  emergencyInfo: { emergencyContactName: string; emergencyContactPhone: string; medicalNotes: string | null };
+}
+
+// A confirmed attendee with what the trail leader needs to know about them
+export interface EmergencyRosterEntry {
+  registration: Registration;
+  user: User;
+  emergencyInfo: RegistrationEmergencyInfo | null;
+  acceptance: WaiverAcceptance | null;
+  waiverVersion: number | null;
+}
+
+export type CapacityCheckedRegistration =
+  | { status: "created"; registration: Registration }
+  | { status: "duplicate"; registration: Registration }
+  | { status: "full" }
+  | { status: "offer_unavailable" };
+
+export type OrderReservationResult =
+  | { status: "created"; order: Order }
+  | { status: "out_of_stock"; products: Product[] };
+
+export type StockAdjustmentResult =
+  | { status: "updated"; product: Product }
+  | { status: "below_reserved"; reserved: number }
+  | { status: "not_found" };
+
+export type OrderItemDetail = OrderItem & { productName: string; imageUrl: string };
+
+export type OrderRestockResult =
+  | { status: "restocked"; order: Order }
+  | { status: "invalid"; message: string };
+
+// A registration takes up a spot while confirmed, or while pending with an unexpired payment hold
+const holdsSpot = sql`(${registrations.status} = 'confirmed' OR (${registrations.status} = 'pending' AND (${registrations.holdExpiresAt} IS NULL OR ${registrations.holdExpiresAt} > NOW())))`;
+
+// A waitlist offer reserves its spot until the claim window closes
+const offerHoldsSpot = sql`(${eventWaitlistEntries.status} = 'offered' AND ${eventWaitlistEntries.offerExpiresAt} > NOW())`;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// How many of each product on an order have been sold and not yet put back
+async function getUnreturnedQuantities(tx: Transaction, orderId: number): Promise<Map<number, number>> {
+  const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+  const restocked = await tx
+    .select({
+      productId: inventoryMovements.productId,
+      quantity: sql<number>`COALESCE(SUM(${inventoryMovements.stockChange}), 0)::int`,
+    })
+    .from(inventoryMovements)
+    .where(and(eq(inventoryMovements.orderId, orderId), inArray(inventoryMovements.reason, ["cancel", "return"])))
+    .groupBy(inventoryMovements.productId);
+
+  const outstanding = new Map<number, number>();
+  for (const item of items) {
+    outstanding.set(item.productId, (outstanding.get(item.productId) ?? 0) + item.quantity);
+  }
+  for (const row of restocked) {
+    outstanding.set(row.productId, (outstanding.get(row.productId) ?? 0) - row.quantity);
+  }
+  return outstanding;
+}
 
 export interface IStorage {
   // User operations
@@ -12,45 +123,173 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPassword(userId: number, passwordHash: string): Promise<User>;
+  setUserVerified(userId: number): Promise<User>;
+  recordFailedLogin(userId: number, lockAfterAttempts: number, lockedUntil: Date): Promise<User>;
+  resetFailedLogins(userId: number): Promise<User>;
+  updateUserProfile(userId: number, profile: UpdateProfile): Promise<User>;
+  setPendingEmail(userId: number, email: string | null): Promise<User>;
+  confirmEmailChange(userId: number, email: string): Promise<User | undefined>;
+  anonymizeUser(userId: number, passwordHash: string): Promise<AnonymizationResult>;
+  getUserByCalendarFeedToken(token: string): Promise<User | undefined>;
+  setCalendarFeedToken(userId: number, token: string): Promise<User>;
+
+  // Privacy operations
+  createErasureRequest(userId: number, reason: string | null): Promise<ErasureRequest>;
+  getErasureRequest(id: number): Promise<ErasureRequest | undefined>;
+  getUserErasureRequests(userId: number): Promise<ErasureRequest[]>;
+  getAllErasureRequests(): Promise<ErasureRequest[]>;
+  reviewErasureRequest(id: number, reviewerId: number, status: "approved" | "rejected", note: string | null): Promise<ErasureRequest | undefined>;
+  setErasureRequestStatus(id: number, status: "pending" | "completed"): Promise<ErasureRequest>;
+  logPrivacyAction(entry: InsertPrivacyAuditLog): Promise<PrivacyAuditLogEntry>;
+  getPrivacyAuditLog(limit: number): Promise<PrivacyAuditLogEntry[]>;
+
+  // Password reset operations
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  invalidatePasswordResetTokens(userId: number): Promise<void>;
+
+  // Two-factor operations
+  enableTotp(userId: number, secret: string, recoveryCodeHashes: string[]): Promise<User>;
+  disableTotp(userId: number): Promise<User>;
+  recordTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+
+  // Settings operations
+  getSetting<T>(key: string): Promise<T | undefined>;
+  setSetting<T>(key: string, value: T): Promise<void>;
+
+  // Passkey operations
+  getUserCredentials(userId: number): Promise<UserCredential[]>;
+  getCredentialByCredentialId(credentialId: string): Promise<UserCredential | undefined>;
+  createUserCredential(credential: InsertUserCredential): Promise<UserCredential>;
+  updateCredentialCounter(id: number, counter: number): Promise<UserCredential>;
+  deleteUserCredential(userId: number, id: number): Promise<boolean>;
 
   // Event operations
   getEvent(id: number): Promise<Event | undefined>;
   getAllEvents(): Promise<Event[]>;
+  getUpcomingEvents(): Promise<Event[]>;
+  getEventSummaries(): Promise<EventSummary[]>;
+  getEventAttendees(eventId: number): Promise<{ registration: Registration; user: User }[]>;
+  getCheckInRoster(eventId: number): Promise<{ registration: Registration; user: User }[]>;
+  recordCheckIns(eventId: number, checkIns: { registrationId: number; checkedInAt: Date }[], checkedInBy: number): Promise<Registration[]>;
+  getUserTickets(userId: number): Promise<{ registration: Registration; event: Event }[]>;
+  getUserCalendarEvents(userId: number): Promise<Event[]>;
   createEvent(event: InsertEvent): Promise<Event>;
+  updateEventWithinCapacity(id: number, event: UpdateEvent & { seriesOverride?: boolean }): Promise<CapacityCheckedEventUpdate>;
+  cancelEvent(id: number, detachFromSeries?: boolean): Promise<Event | undefined>;
+  cancelEventRegistrations(eventId: number): Promise<Registration[]>;
+
+  // Event series operations
+  getEventSeries(id: number): Promise<EventSeries | undefined>;
+  getAllEventSeries(): Promise<EventSeries[]>;
+  getEventSeriesByIds(ids: number[]): Promise<EventSeries[]>;
+  createEventSeries(series: InsertEventSeries): Promise<EventSeries>;
+  updateEventSeries(id: number, series: UpdateEventSeries): Promise<EventSeries | undefined>;
+  getSeriesOccurrences(seriesId: number): Promise<Event[]>;
+  upsertSeriesOccurrences(occurrences: (typeof events.$inferInsert)[]): Promise<Event[]>;
 
   // Registration operations
   getRegistration(id: number): Promise<Registration | undefined>;
   createRegistration(registration: InsertRegistration): Promise<Registration>;
+  createRegistrationWithinCapacity(registration: InsertRegistration, participant: ParticipantRecord, waitlistEntryId?: number): Promise<CapacityCheckedRegistration>;
+  cancelRegistration(id: number): Promise<Registration | undefined>;
+  recordRegistrationRefund(id: number, amountRefunded: string, refundId: string): Promise<Registration>;
+  transferRegistration(id: number, fromUserId: number, toUserId: number): Promise<RegistrationTransferResult>;
   getEventRegistrations(eventId: number): Promise<Registration[]>;
+  getUserRegistrations(userId: number): Promise<Registration[]>;
+  getUserEventRegistration(userId: number, eventId: number): Promise<Registration | undefined>;
+  countActiveRegistrations(eventId: number): Promise<number>;
+  getRegistrationByPaymentIntent(paymentIntentId: string): Promise<Registration | undefined>;
+  setRegistrationPaymentIntent(id: number, paymentIntentId: string): Promise<Registration>;
+  confirmRegistrationPayment(paymentIntentId: string, amountPaid: string): Promise<Registration | undefined>;
+  getExpiredRegistrationHolds(): Promise<Registration[]>;
+  expireRegistration(id: number): Promise<boolean>;
+
+  // Waiver and emergency info operations
+  getCurrentWaiver(): Promise<Waiver | undefined>;
+  getAllWaivers(): Promise<Waiver[]>;
+  publishWaiver(waiver: InsertWaiver, createdBy: number): Promise<Waiver>;
+  saveParticipantInfo(registrationId: number, participant: ParticipantRecord & { userId: number }): Promise<void>;
+  getRegistrationEmergencyInfo(registrationId: number): Promise<RegistrationEmergencyInfo | undefined>;
+  getWaiverAcceptance(registrationId: number, userId: number): Promise<WaiverAcceptance | undefined>;
+  getUserWaiverAcceptances(userId: number): Promise<(WaiverAcceptance & { waiverVersion: number })[]>;
+  getUserEmergencyInfo(userId: number): Promise<RegistrationEmergencyInfo[]>;
+  getUserEventWaitlistEntries(userId: number): Promise<EventWaitlistEntry[]>;
+  getEmergencyRoster(eventId: number): Promise<EmergencyRosterEntry[]>;
+
+  // Event waitlist operations
+  getActiveWaitlistEntry(userId: number, eventId: number): Promise<EventWaitlistEntry | undefined>;
+  getWaitlistPosition(entry: EventWaitlistEntry): Promise<number>;
+  countWaitingEntries(eventId: number): Promise<number>;
+  countOpenWaitlistOffers(eventId: number): Promise<number>;
+  joinEventWaitlist(userId: number, eventId: number): Promise<EventWaitlistEntry>;
+  leaveEventWaitlist(id: number): Promise<EventWaitlistEntry | undefined>;
+  offerWaitlistSpots(eventId: number, offerExpiresAt: Date): Promise<EventWaitlistEntry[]>;
+  getExpiredWaitlistOffers(): Promise<EventWaitlistEntry[]>;
+  expireWaitlistOffer(id: number): Promise<boolean>;
 
   // Waitlist operations
   addToWaitlist(email: InsertWaitlist): Promise<Waitlist>;
   isEmailInWaitlist(email: string): Promise<boolean>;
+  getWaitlistEntry(email: string): Promise<Waitlist | undefined>;
 
   // Product operations
   getProduct(id: number): Promise<Product | undefined>;
   getAllProducts(): Promise<Product[]>;
   getProductsByCategory(category: string): Promise<Product[]>;
-  createProduct(product: InsertProduct): Promise<Product>;
-  updateProductStock(id: number, quantity: number): Promise<Product>;
+  getProductsByIds(ids: number[]): Promise<Product[]>;
+  createProduct(product: InsertProduct, createdBy?: number): Promise<Product>;
+  updateProductStock(id: number, quantity: number, note: string, createdBy: number): Promise<StockAdjustmentResult>;
+  getProductInventoryMovements(productId: number): Promise<InventoryMovement[]>;
 
   // Order operations
   getOrder(id: number): Promise<Order | undefined>;
   getUserOrders(userId: number): Promise<Order[]>;
   createOrder(order: InsertOrder): Promise<Order>;
+  createOrderWithItems(order: InsertOrder, items: Omit<InsertOrderItem, "orderId">[]): Promise<OrderReservationResult>;
+  setOrderPaymentIntent(id: number, paymentIntentId: string): Promise<Order>;
   updateOrderStatus(id: number, status: string): Promise<Order>;
+  getOrderByPaymentIntent(paymentIntentId: string): Promise<Order | undefined>;
+  markOrderPaid(paymentIntentId: string): Promise<Order | undefined>;
+  recordOrderPaymentFailure(paymentIntentId: string, message: string): Promise<Order | undefined>;
+  recordOrderRefund(id: number, amountRefunded: string, fullyRefunded: boolean): Promise<Order>;
+  setOrderDisputeStatus(id: number, disputeStatus: string): Promise<Order>;
+  cancelPendingOrder(id: number): Promise<Order | undefined>;
+  getExpiredOrderReservations(): Promise<Order[]>;
+  cancelPaidOrder(id: number, createdBy: number): Promise<OrderRestockResult>;
+  returnOrderItems(
+    id: number,
+    items: { productId: number; quantity: number }[],
+    note: string | null,
+    createdBy: number
+  ): Promise<OrderRestockResult>;
 
   // Order Item operations
   getOrderItems(orderId: number): Promise<OrderItem[]>;
+  getOrderItemDetails(orderId: number): Promise<OrderItemDetail[]>;
   createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem>;
 
+  // Discount code operations
+  getDiscountCodeByCode(code: string): Promise<DiscountCode | undefined>;
+
+  // Stripe webhook operations
+  claimStripeEvent(id: string, type: string): Promise<boolean>;
+  releaseStripeEvent(id: string): Promise<void>;
+
   // Admin operations
   getAllUsers(): Promise<User[]>;
   getAllOrders(): Promise<Order[]>;
-  updateUserRole(userId: number, isAdmin: boolean): Promise<User>;
+  updateUserRole(userId: number, roles: Role[]): Promise<User>;
 
   // Session store
   sessionStore: session.Store;
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  destroySession(sid: string): Promise<void>;
+  destroyUserSessions(userId: number, exceptSid?: string): Promise<void>;
 
   // Model config operations
   getModelConfig(id: number): Promise<ModelConfig | undefined>;
@@ -99,6 +338,445 @@ export class DatabaseStorage implements IStorage {
     return newUser;
   }
 
+  async updateUserPassword(userId: number, passwordHash: string): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ password: passwordHash })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  async setUserVerified(userId: number): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ isVerified: true })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  // Increments the failure counter and, once it reaches lockAfterAttempts,
+  // locks the account in the same statement.
+  async recordFailedLogin(userId: number, lockAfterAttempts: number, lockedUntil: Date): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({
+        failedLoginAttempts: sql`${users.failedLoginAttempts} + 1`,
+        lastFailedLoginAt: new Date(),
+        lockedUntil: sql`CASE WHEN ${users.failedLoginAttempts} + 1 >= ${lockAfterAttempts} THEN ${lockedUntil.toISOString()}::timestamp ELSE ${users.lockedUntil} END`,
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  async resetFailedLogins(userId: number): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  async updateUserProfile(userId: number, profile: UpdateProfile): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set(profile)
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  async setPendingEmail(userId: number, email: string | null): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ pendingEmail: email })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  // Only applies while the address is still the pending one, so a stale
+  // confirmation link cannot overwrite a newer change.
+  async confirmEmailChange(userId: number, email: string): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ email, pendingEmail: null, isVerified: true })
+      .where(and(eq(users.id, userId), eq(users.pendingEmail, email)))
+      .returning();
+    return updatedUser;
+  }
+
+  async getUserByCalendarFeedToken(token: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.calendarFeedToken, token), isNull(users.deletedAt)));
+    return user;
+  }
+
+  async setCalendarFeedToken(userId: number, token: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ calendarFeedToken: token })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Scrubs personal data but keeps the row, so orders and registrations
+  // still reference a (now anonymous) user.
+  async anonymizeUser(userId: number, passwordHash: string): Promise<AnonymizationResult> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select({ email: users.email }).from(users).where(eq(users.id, userId));
+
+      await tx
+        .update(users)
+        .set({
+          username: `deleted-user-${userId}`,
+          email: `deleted-user-${userId}@deleted.invalid`,
+          password: passwordHash,
+          isAdmin: false,
+          roles: [],
+          isVerified: false,
+          failedLoginAttempts: 0,
+          lastFailedLoginAt: null,
+          lockedUntil: null,
+          totpSecret: null,
+          totpEnabledAt: null,
+          totpLastUsedStep: null,
+          displayName: null,
+          phone: null,
+          emergencyContactName: null,
+          emergencyContactPhone: null,
+          experienceLevel: null,
+          avatarUrl: null,
+          pendingEmail: null,
+          calendarFeedToken: null,
+          deletedAt: new Date(),
+        })
+        .where(eq(users.id, userId));
+
+      const credentialsDeleted = await tx
+        .delete(userCredentials)
+        .where(eq(userCredentials.userId, userId))
+        .returning({ id: userCredentials.id });
+      const recoveryCodesDeleted = await tx
+        .delete(recoveryCodes)
+        .where(eq(recoveryCodes.userId, userId))
+        .returning({ id: recoveryCodes.id });
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+
+      const userConversations = await tx
+        .select({ id: conversations.id })
+        .from(conversations)
+        .where(eq(conversations.userId, userId));
+      const conversationIds = userConversations.map(({ id }) => id);
+      const messagesDeleted = conversationIds.length > 0
+        ? await tx
+            .delete(messages)
+            .where(inArray(messages.conversationId, conversationIds))
+            .returning({ id: messages.id })
+        : [];
+      await tx.delete(conversations).where(eq(conversations.userId, userId));
+
+      const waitlistEntriesDeleted = user
+        ? await tx.delete(waitlist).where(eq(waitlist.email, user.email)).returning({ id: waitlist.id })
+        : [];
+
+      // Keep order totals for the books but drop the name, street and phone
+      const ordersAnonymized = await tx
+        .update(orders)
+        .set({
+          shippingAddress: sql`jsonb_build_object(
+            'city', ${orders.shippingAddress}->'city',
+            'state', ${orders.shippingAddress}->'state',
+            'postalCode', ${orders.shippingAddress}->'postalCode',
+            'country', ${orders.shippingAddress}->'country'
+          )`,
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.userId, userId))
+        .returning({ id: orders.id });
+
+      const eventWaitlistEntriesDeleted = await tx
+        .delete(eventWaitlistEntries)
+        .where(eq(eventWaitlistEntries.userId, userId))
+        .returning({ eventId: eventWaitlistEntries.eventId, status: eventWaitlistEntries.status });
+
+      // The record that a waiver was accepted stays; the typed name and address do not
+      const waiverAcceptancesScrubbed = await tx
+        .update(waiverAcceptances)
+        .set({ signature: `deleted-user-${userId}`, ipAddress: null })
+        .where(eq(waiverAcceptances.userId, userId))
+        .returning({ id: waiverAcceptances.id });
+
+      // Emergency contacts and medical notes go for every registration, past ones included
+      const emergencyInfoDeleted = await tx
+        .delete(registrationEmergencyInfo)
+        .where(sql`${registrationEmergencyInfo.registrationId} IN (SELECT ${registrations.id} FROM ${registrations} WHERE ${registrations.userId} = ${userId})`)
+        .returning({ registrationId: registrationEmergencyInfo.registrationId });
+
+      // Free up places on events that have not happened yet
+      const cancelledRegistrations = await tx
+        .update(registrations)
+        .set({ status: "cancelled", holdExpiresAt: null, cancelledAt: new Date() })
+        .where(and(
+          eq(registrations.userId, userId),
+          inArray(registrations.status, ["pending", "confirmed"]),
+          sql`${registrations.eventId} IN (SELECT ${events.id} FROM ${events} WHERE ${events.date} > NOW())`,
+        ))
+        .returning();
+
+      return {
+        summary: {
+          ordersAnonymized: ordersAnonymized.length,
+          registrationsCancelled: cancelledRegistrations.length,
+          conversationsDeleted: conversationIds.length,
+          messagesDeleted: messagesDeleted.length,
+          credentialsDeleted: credentialsDeleted.length,
+          recoveryCodesDeleted: recoveryCodesDeleted.length,
+          waitlistEntriesDeleted: waitlistEntriesDeleted.length,
+          eventWaitlistEntriesDeleted: eventWaitlistEntriesDeleted.length,
+          waiverAcceptancesScrubbed: waiverAcceptancesScrubbed.length,
+          emergencyInfoDeleted: emergencyInfoDeleted.length,
+        },
+        cancelledRegistrations,
+        withdrawnOfferEventIds: eventWaitlistEntriesDeleted
+          .filter((entry) => entry.status === "offered")
+          .map((entry) => entry.eventId),
+      };
+    });
+  }
+
+  async createErasureRequest(userId: number, reason: string | null): Promise<ErasureRequest> {
+    const [request] = await db.insert(erasureRequests).values({ userId, reason }).returning();
+    return request;
+  }
+
+  async getErasureRequest(id: number): Promise<ErasureRequest | undefined> {
+    const [request] = await db.select().from(erasureRequests).where(eq(erasureRequests.id, id));
+    return request;
+  }
+
+  async getUserErasureRequests(userId: number): Promise<ErasureRequest[]> {
+    return await db
+      .select()
+      .from(erasureRequests)
+      .where(eq(erasureRequests.userId, userId))
+      .orderBy(desc(erasureRequests.createdAt));
+  }
+
+  async getAllErasureRequests(): Promise<ErasureRequest[]> {
+    return await db.select().from(erasureRequests).orderBy(desc(erasureRequests.createdAt));
+  }
+
+  // Only moves a request that is still pending, so two admins cannot both act on it
+  async reviewErasureRequest(
+    id: number,
+    reviewerId: number,
+    status: "approved" | "rejected",
+    note: string | null
+  ): Promise<ErasureRequest | undefined> {
+    const [request] = await db
+      .update(erasureRequests)
+      .set({ status, reviewedBy: reviewerId, reviewedAt: new Date(), reviewNote: note })
+      .where(and(eq(erasureRequests.id, id), eq(erasureRequests.status, "pending")))
+      .returning();
+    return request;
+  }
+
+  async setErasureRequestStatus(id: number, status: "pending" | "completed"): Promise<ErasureRequest> {
+    const [request] = await db
+      .update(erasureRequests)
+      .set(status === "completed" ? { status, completedAt: new Date() } : { status })
+      .where(eq(erasureRequests.id, id))
+      .returning();
+    return request;
+  }
+
+  async logPrivacyAction(entry: InsertPrivacyAuditLog): Promise<PrivacyAuditLogEntry> {
+    const [logEntry] = await db.insert(privacyAuditLog).values(entry).returning();
+    return logEntry;
+  }
+
+  async getPrivacyAuditLog(limit: number): Promise<PrivacyAuditLogEntry[]> {
+    return await db.select().from(privacyAuditLog).orderBy(desc(privacyAuditLog.createdAt)).limit(limit);
+  }
+
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const [token] = await db
+      .insert(passwordResetTokens)
+      .values({ userId, tokenHash, expiresAt })
+      .returning();
+    return token;
+  }
+
+  // Marks the token used and returns it in a single statement, so a token can
+  // only ever be redeemed once even under concurrent requests.
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return token;
+  }
+
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  async enableTotp(userId: number, secret: string, recoveryCodeHashes: string[]): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [updatedUser] = await tx
+        .update(users)
+        .set({ totpSecret: secret, totpEnabledAt: new Date(), totpLastUsedStep: null })
+        .where(eq(users.id, userId))
+        .returning();
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+      return updatedUser;
+    });
+  }
+
+  async disableTotp(userId: number): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [updatedUser] = await tx
+        .update(users)
+        .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null })
+        .where(eq(users.id, userId))
+        .returning();
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      return updatedUser;
+    });
+  }
+
+  // Only succeeds for a step newer than the last accepted one, so the same
+  // code cannot be replayed even by concurrent requests.
+  async recordTotpStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step)),
+      ))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt),
+      ))
+      .returning({ id: recoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return result.count;
+  }
+
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting?.value as T | undefined;
+  }
+
+  async setSetting<T>(key: string, value: T): Promise<void> {
+    await db
+      .insert(appSettings)
+      .values({ key, value })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value, updatedAt: new Date() },
+      });
+  }
+
+  async getUserCredentials(userId: number): Promise<UserCredential[]> {
+    return await db.select().from(userCredentials).where(eq(userCredentials.userId, userId));
+  }
+
+  async getCredentialByCredentialId(credentialId: string): Promise<UserCredential | undefined> {
+    const [credential] = await db
+      .select()
+      .from(userCredentials)
+      .where(eq(userCredentials.credentialId, credentialId));
+    return credential;
+  }
+
+  async createUserCredential(credential: InsertUserCredential): Promise<UserCredential> {
+    const [newCredential] = await db.insert(userCredentials).values(credential).returning();
+    return newCredential;
+  }
+
+  async updateCredentialCounter(id: number, counter: number): Promise<UserCredential> {
+    const [updatedCredential] = await db
+      .update(userCredentials)
+      .set({ counter, lastUsedAt: new Date() })
+      .where(eq(userCredentials.id, id))
+      .returning();
+    return updatedCredential;
+  }
+
+  async deleteUserCredential(userId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(userCredentials)
+      .where(and(eq(userCredentials.id, id), eq(userCredentials.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    // connect-pg-simple stores sess as json, which the driver may hand back unparsed
+    const result = await db.execute<{ sid: string; sess: string | Record<string, any>; expire: string | Date }>(
+      sql`SELECT sid, sess, expire FROM "session" WHERE (sess->>'userId')::int = ${userId} AND expire > NOW()`
+    );
+    return result.rows.map((row) => ({
+      sid: row.sid,
+      sess: typeof row.sess === "string" ? JSON.parse(row.sess) : row.sess,
+      expire: new Date(row.expire),
+    }));
+  }
+
+  async destroySession(sid: string): Promise<void> {
+    await db.execute(sql`DELETE FROM "session" WHERE sid = ${sid}`);
+  }
+
+  async destroyUserSessions(userId: number, exceptSid?: string): Promise<void> {
+    // connect-pg-simple keeps the serialized session in the "session" table
+    await db.execute(
+      exceptSid
+        ? sql`DELETE FROM "session" WHERE (sess->>'userId')::int = ${userId} AND sid <> ${exceptSid}`
+        : sql`DELETE FROM "session" WHERE (sess->>'userId')::int = ${userId}`
+    );
+  }
+
   async getEvent(id: number): Promise<Event | undefined> {
     const [event] = await db.select().from(events).where(eq(events.id, id));
     return event;
@@ -113,6 +791,239 @@ export class DatabaseStorage implements IStorage {
     return newEvent;
   }
 
+  async getUpcomingEvents(): Promise<Event[]> {
+    return await db
+      .select()
+      .from(events)
+      .where(and(gt(events.date, new Date()), isNull(events.cancelledAt)))
+      .orderBy(asc(events.date));
+  }
+
+  async getEventSummaries(): Promise<EventSummary[]> {
+    const [allEvents, registered, waiting] = await Promise.all([
+      db.select().from(events).orderBy(desc(events.date)),
+      db
+        .select({ eventId: registrations.eventId, count: count() })
+        .from(registrations)
+        .where(holdsSpot)
+        .groupBy(registrations.eventId),
+      db
+        .select({ eventId: eventWaitlistEntries.eventId, count: count() })
+        .from(eventWaitlistEntries)
+        .where(eq(eventWaitlistEntries.status, "waiting"))
+        .groupBy(eventWaitlistEntries.eventId),
+    ]);
+    const registeredCounts = new Map(registered.map((row) => [row.eventId, row.count]));
+    const waitingCounts = new Map(waiting.map((row) => [row.eventId, row.count]));
+
+    return allEvents.map((event) => ({
+      ...event,
+      registeredCount: registeredCounts.get(event.id) ?? 0,
+      waitlistCount: waitingCounts.get(event.id) ?? 0,
+    }));
+  }
+
+  // Members currently holding a spot, for notifications
+  async getEventAttendees(eventId: number): Promise<{ registration: Registration; user: User }[]> {
+    return await db
+      .select({ registration: registrations, user: users })
+      .from(registrations)
+      .innerJoin(users, eq(users.id, registrations.userId))
+      .where(and(eq(registrations.eventId, eventId), holdsSpot, isNull(users.deletedAt)));
+  }
+
+  async getCheckInRoster(eventId: number): Promise<{ registration: Registration; user: User }[]> {
+    return await db
+      .select({ registration: registrations, user: users })
+      .from(registrations)
+      .innerJoin(users, eq(users.id, registrations.userId))
+      .where(and(eq(registrations.eventId, eventId), eq(registrations.status, "confirmed")))
+      .orderBy(asc(users.username));
+  }
+
+  // The first check-in for a registration wins; replays from other devices
+  // leave the original time in place.
+  async recordCheckIns(
+    eventId: number,
+    checkIns: { registrationId: number; checkedInAt: Date }[],
+    checkedInBy: number
+  ): Promise<Registration[]> {
+    if (checkIns.length === 0) {
+      return [];
+    }
+    return await db.transaction(async (tx) => {
+      for (const { registrationId, checkedInAt } of checkIns) {
+        await tx
+          .update(registrations)
+          .set({ checkedInAt, checkedInBy })
+          .where(and(
+            eq(registrations.id, registrationId),
+            eq(registrations.eventId, eventId),
+            eq(registrations.status, "confirmed"),
+            isNull(registrations.checkedInAt),
+          ));
+      }
+      return await tx
+        .select()
+        .from(registrations)
+        .where(and(
+          eq(registrations.eventId, eventId),
+          inArray(registrations.id, checkIns.map((checkIn) => checkIn.registrationId)),
+        ));
+    });
+  }
+
+  // Confirmed registrations for events that haven't finished yet
+  async getUserTickets(userId: number): Promise<{ registration: Registration; event: Event }[]> {
+    return await db
+      .select({ registration: registrations, event: events })
+      .from(registrations)
+      .innerJoin(events, eq(events.id, registrations.eventId))
+      .where(and(
+        eq(registrations.userId, userId),
+        eq(registrations.status, "confirmed"),
+        isNull(events.cancelledAt),
+        gt(events.date, sql`NOW() - INTERVAL '1 day'`),
+      ))
+      .orderBy(asc(events.date));
+  }
+
+  // Confirmed events for the personal calendar feed; recent ones stay a while
+  // so they don't vanish from the calendar as soon as they start
+  async getUserCalendarEvents(userId: number): Promise<Event[]> {
+    const rows = await db
+      .select({ event: events })
+      .from(registrations)
+      .innerJoin(events, eq(events.id, registrations.eventId))
+      .where(and(
+        eq(registrations.userId, userId),
+        eq(registrations.status, "confirmed"),
+        isNull(events.cancelledAt),
+        gt(events.date, sql`NOW() - INTERVAL '30 days'`),
+      ))
+      .orderBy(asc(events.date));
+    return rows.map(({ event }) => event);
+  }
+
+  // Uses the registration lock on the event so capacity can't be lowered
+  // below the spots taken while someone is signing up
+  async updateEventWithinCapacity(
+    id: number,
+    event: UpdateEvent & { seriesOverride?: boolean }
+  ): Promise<CapacityCheckedEventUpdate> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(events).where(eq(events.id, id)).for("update");
+      if (!previous) {
+        return { status: "not_found" };
+      }
+
+      if (event.capacity !== undefined && event.capacity < previous.capacity) {
+        const [taken] = await tx
+          .select({ count: count() })
+          .from(registrations)
+          .where(and(eq(registrations.eventId, id), holdsSpot));
+        const [reserved] = await tx
+          .select({ count: count() })
+          .from(eventWaitlistEntries)
+          .where(and(eq(eventWaitlistEntries.eventId, id), offerHoldsSpot));
+        if (event.capacity < taken.count + reserved.count) {
+          return { status: "capacity_too_low", taken: taken.count + reserved.count };
+        }
+      }
+
+      const [updated] = await tx
+        .update(events)
+        .set({ ...event, sequence: sql`${events.sequence} + 1`, updatedAt: new Date() })
+        .where(eq(events.id, id))
+        .returning();
+      return { status: "updated", previous, event: updated };
+    });
+  }
+
+  // Cancelling a single occurrence detaches it so later series edits leave it
+  // cancelled; occurrences dropped by a series edit stay attached and come
+  // back if the date is scheduled again.
+  async cancelEvent(id: number, detachFromSeries = true): Promise<Event | undefined> {
+    const [cancelled] = await db
+      .update(events)
+      .set({
+        cancelledAt: new Date(),
+        sequence: sql`${events.sequence} + 1`,
+        updatedAt: new Date(),
+        ...(detachFromSeries ? { seriesOverride: sql`${events.seriesId} IS NOT NULL` } : {}),
+      })
+      .where(and(eq(events.id, id), isNull(events.cancelledAt)))
+      .returning();
+    return cancelled;
+  }
+
+  // Releases every spot on a cancelled event, including waitlist offers
+  async cancelEventRegistrations(eventId: number): Promise<Registration[]> {
+    return await db.transaction(async (tx) => {
+      const cancelled = await tx
+        .update(registrations)
+        .set({ status: "cancelled", holdExpiresAt: null, cancelledAt: new Date() })
+        .where(and(eq(registrations.eventId, eventId), inArray(registrations.status, ["pending", "confirmed"])))
+        .returning();
+      await tx
+        .update(eventWaitlistEntries)
+        .set({ status: "expired" })
+        .where(and(eq(eventWaitlistEntries.eventId, eventId), inArray(eventWaitlistEntries.status, ["waiting", "offered"])));
+      return cancelled;
+    });
+  }
+
+  async getEventSeries(id: number): Promise<EventSeries | undefined> {
+    const [series] = await db.select().from(eventSeries).where(eq(eventSeries.id, id));
+    return series;
+  }
+
+  async getAllEventSeries(): Promise<EventSeries[]> {
+    return await db.select().from(eventSeries).orderBy(asc(eventSeries.title));
+  }
+
+  async getEventSeriesByIds(ids: number[]): Promise<EventSeries[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return await db.select().from(eventSeries).where(inArray(eventSeries.id, ids));
+  }
+
+  async createEventSeries(series: InsertEventSeries): Promise<EventSeries> {
+    const [newSeries] = await db.insert(eventSeries).values(series).returning();
+    return newSeries;
+  }
+
+  async updateEventSeries(id: number, series: UpdateEventSeries): Promise<EventSeries | undefined> {
+    const [updated] = await db.update(eventSeries).set(series).where(eq(eventSeries.id, id)).returning();
+    return updated;
+  }
+
+  async getSeriesOccurrences(seriesId: number): Promise<Event[]> {
+    return await db
+      .select()
+      .from(events)
+      .where(eq(events.seriesId, seriesId))
+      .orderBy(asc(events.date));
+  }
+
+  // Inserts occurrences that don't exist yet and restores ones a previous
+  // series edit had cancelled. Returns only the rows that changed.
+  async upsertSeriesOccurrences(occurrences: (typeof events.$inferInsert)[]): Promise<Event[]> {
+    if (occurrences.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(events)
+      .values(occurrences)
+      .onConflictDoUpdate({
+        target: [events.seriesId, events.occurrenceDate],
+        set: { cancelledAt: null, sequence: sql`${events.sequence} + 1`, updatedAt: new Date() },
+        setWhere: and(eq(events.seriesOverride, false), isNotNull(events.cancelledAt)),
+      })
+      .returning();
+  }
+
   async getRegistration(id: number): Promise<Registration | undefined> {
     const [registration] = await db.select().from(registrations).where(eq(registrations.id, id));
     return registration;
@@ -123,10 +1034,513 @@ export class DatabaseStorage implements IStorage {
     return newRegistration;
   }
 
+  // Locks the event row so concurrent sign-ups for the same event are
+  // serialized; the capacity count and the insert then see a consistent view.
+  // Spots held by open waitlist offers are not available, and while anyone is
+  // still queued only the member claiming an offer (waitlistEntryId) may take one.
+  async createRegistrationWithinCapacity(
+    registration: InsertRegistration,
+    participant: ParticipantRecord,
+    waitlistEntryId?: number
+  ): Promise<CapacityCheckedRegistration> {
+    return await db.transaction(async (tx) => {
+      const [event] = await tx
+        .select({ capacity: events.capacity })
+        .from(events)
+        .where(eq(events.id, registration.eventId))
+        .for("update");
+      if (!event) {
+        throw new Error(`Event ${registration.eventId} not found`);
+      }
+
+      const [existing] = await tx
+        .select()
+        .from(registrations)
+        .where(and(
+          eq(registrations.userId, registration.userId),
+          eq(registrations.eventId, registration.eventId),
+          holdsSpot,
+        ));
+      if (existing) {
+        return { status: "duplicate", registration: existing };
+      }
+
+      if (waitlistEntryId !== undefined) {
+        const [offer] = await tx
+          .select({ id: eventWaitlistEntries.id })
+          .from(eventWaitlistEntries)
+          .where(and(
+            eq(eventWaitlistEntries.id, waitlistEntryId),
+            eq(eventWaitlistEntries.userId, registration.userId),
+            eq(eventWaitlistEntries.eventId, registration.eventId),
+            offerHoldsSpot,
+          ));
+        if (!offer) {
+          return { status: "offer_unavailable" };
+        }
+      }
+
+      const [taken] = await tx
+        .select({ count: count() })
+        .from(registrations)
+        .where(and(eq(registrations.eventId, registration.eventId), holdsSpot));
+      const [reserved] = await tx
+        .select({ count: count() })
+        .from(eventWaitlistEntries)
+        .where(and(
+          eq(eventWaitlistEntries.eventId, registration.eventId),
+          offerHoldsSpot,
+          waitlistEntryId !== undefined ? sql`${eventWaitlistEntries.id} <> ${waitlistEntryId}` : undefined,
+        ));
+      if (taken.count + reserved.count >= event.capacity) {
+        return { status: "full" };
+      }
+
+      if (waitlistEntryId === undefined) {
+        const [waiting] = await tx
+          .select({ count: count() })
+          .from(eventWaitlistEntries)
+          .where(and(eq(eventWaitlistEntries.eventId, registration.eventId), eq(eventWaitlistEntries.status, "waiting")));
+        if (waiting.count > 0) {
+          return { status: "full" };
+        }
+      }
+
+      const [newRegistration] = await tx.insert(registrations).values(registration).returning();
+      if (participant.acceptance) {
+        await tx.insert(waiverAcceptances).values({
+          ...participant.acceptance,
+          registrationId: newRegistration.id,
+          userId: newRegistration.userId,
+        });
+      }
+      await tx.insert(registrationEmergencyInfo).values({ ...participant.emergencyInfo, registrationId: newRegistration.id });
+      if (waitlistEntryId !== undefined) {
+        await tx
+          .update(eventWaitlistEntries)
+          .set({ status: "claimed" })
+          .where(eq(eventWaitlistEntries.id, waitlistEntryId));
+      }
+      return { status: "created", registration: newRegistration };
+    });
+  }
+
+  async cancelRegistration(id: number): Promise<Registration | undefined> {
+    const [cancelled] = await db
+      .update(registrations)
+      .set({ status: "cancelled", holdExpiresAt: null, cancelledAt: new Date() })
+      .where(and(eq(registrations.id, id), inArray(registrations.status, ["pending", "confirmed"])))
+      .returning();
+    return cancelled;
+  }
+
+  async recordRegistrationRefund(id: number, amountRefunded: string, refundId: string): Promise<Registration> {
+    const [registration] = await db
+      .update(registrations)
+      .set({ amountRefunded, refundId })
+      .where(eq(registrations.id, id))
+      .returning();
+    return registration;
+  }
+
+  // Hands a confirmed registration to another member, keeping its payment.
+  // Runs under the event lock so the recipient cannot register for the same
+  // event at the same moment; any waitlist entry they had is closed.
+  async transferRegistration(id: number, fromUserId: number, toUserId: number): Promise<RegistrationTransferResult> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ eventId: registrations.eventId })
+        .from(registrations)
+        .where(eq(registrations.id, id));
+      if (!current) {
+        return { status: "unavailable" };
+      }
+      await tx.select({ id: events.id }).from(events).where(eq(events.id, current.eventId)).for("update");
+
+      const [existing] = await tx
+        .select({ id: registrations.id })
+        .from(registrations)
+        .where(and(eq(registrations.userId, toUserId), eq(registrations.eventId, current.eventId), holdsSpot));
+      if (existing) {
+        return { status: "duplicate" };
+      }
+
+      const [transferred] = await tx
+        .update(registrations)
+        .set({ userId: toUserId, transferredFromUserId: fromUserId })
+        .where(and(
+          eq(registrations.id, id),
+          eq(registrations.userId, fromUserId),
+          eq(registrations.status, "confirmed"),
+        ))
+        .returning();
+      if (!transferred) {
+        return { status: "unavailable" };
+      }
+
+      // The previous holder's emergency contact and medical notes don't apply
+      // to the recipient, who is asked for their own
+      await tx.delete(registrationEmergencyInfo).where(eq(registrationEmergencyInfo.registrationId, id));
+
+      await tx
+        .update(eventWaitlistEntries)
+        .set({ status: "left" })
+        .where(and(
+          eq(eventWaitlistEntries.userId, toUserId),
+          eq(eventWaitlistEntries.eventId, current.eventId),
+          inArray(eventWaitlistEntries.status, ["waiting", "offered"]),
+        ));
+      return { status: "transferred", registration: transferred };
+    });
+  }
+
   async getEventRegistrations(eventId: number): Promise<Registration[]> {
     return await db.select().from(registrations).where(eq(registrations.eventId, eventId));
   }
 
+  async getUserRegistrations(userId: number): Promise<Registration[]> {
+    return await db.select().from(registrations).where(eq(registrations.userId, userId));
+  }
+
+  async getUserEventRegistration(userId: number, eventId: number): Promise<Registration | undefined> {
+    const [registration] = await db
+      .select()
+      .from(registrations)
+      .where(and(
+        eq(registrations.userId, userId),
+        eq(registrations.eventId, eventId),
+        holdsSpot,
+      ));
+    return registration;
+  }
+
+  async countActiveRegistrations(eventId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(registrations)
+      .where(and(eq(registrations.eventId, eventId), holdsSpot));
+    return result.count;
+  }
+
+  async getRegistrationByPaymentIntent(paymentIntentId: string): Promise<Registration | undefined> {
+    const [registration] = await db
+      .select()
+      .from(registrations)
+      .where(eq(registrations.paymentIntentId, paymentIntentId));
+    return registration;
+  }
+
+  async setRegistrationPaymentIntent(id: number, paymentIntentId: string): Promise<Registration> {
+    const [updatedRegistration] = await db
+      .update(registrations)
+      .set({ paymentIntentId })
+      .where(eq(registrations.id, id))
+      .returning();
+    return updatedRegistration;
+  }
+
+  // Only confirms a registration that is still pending, so a replayed webhook is a no-op
+  // A payment that lands after its hold lapsed only confirms if the spot is
+  // still free; otherwise the registration is expired and the caller refunds.
+  // Runs under the event lock so it can't race a new sign-up for that spot.
+  async confirmRegistrationPayment(paymentIntentId: string, amountPaid: string): Promise<Registration | undefined> {
+    return await db.transaction(async (tx) => {
+      const [pending] = await tx
+        .select()
+        .from(registrations)
+        .where(and(eq(registrations.paymentIntentId, paymentIntentId), eq(registrations.status, "pending")));
+      if (!pending) {
+        return undefined;
+      }
+
+      const [event] = await tx
+        .select({ capacity: events.capacity })
+        .from(events)
+        .where(eq(events.id, pending.eventId))
+        .for("update");
+
+      if (pending.holdExpiresAt && pending.holdExpiresAt.getTime() <= Date.now()) {
+        const [taken] = await tx
+          .select({ count: count() })
+          .from(registrations)
+          .where(and(
+            eq(registrations.eventId, pending.eventId),
+            holdsSpot,
+            sql`${registrations.id} <> ${pending.id}`,
+          ));
+        const [reserved] = await tx
+          .select({ count: count() })
+          .from(eventWaitlistEntries)
+          .where(and(eq(eventWaitlistEntries.eventId, pending.eventId), offerHoldsSpot));
+        if (taken.count + reserved.count >= event.capacity) {
+          await tx
+            .update(registrations)
+            .set({ status: "expired" })
+            .where(and(eq(registrations.id, pending.id), eq(registrations.status, "pending")));
+          return undefined;
+        }
+      }
+
+      const [updatedRegistration] = await tx
+        .update(registrations)
+        .set({ status: "confirmed", amountPaid, holdExpiresAt: null })
+        .where(and(eq(registrations.id, pending.id), eq(registrations.status, "pending")))
+        .returning();
+      return updatedRegistration;
+    });
+  }
+
+  async getExpiredRegistrationHolds(): Promise<Registration[]> {
+    return await db
+      .select()
+      .from(registrations)
+      .where(and(eq(registrations.status, "pending"), lt(registrations.holdExpiresAt, new Date())));
+  }
+
+  async expireRegistration(id: number): Promise<boolean> {
+    const expired = await db
+      .update(registrations)
+      .set({ status: "expired" })
+      .where(and(eq(registrations.id, id), eq(registrations.status, "pending")))
+      .returning({ id: registrations.id });
+    return expired.length > 0;
+  }
+
+  async getCurrentWaiver(): Promise<Waiver | undefined> {
+    const [waiver] = await db.select().from(waivers).orderBy(desc(waivers.version)).limit(1);
+    return waiver;
+  }
+
+  async getAllWaivers(): Promise<Waiver[]> {
+    return await db.select().from(waivers).orderBy(desc(waivers.version));
+  }
+
+  // Versions are never edited; publishing adds the next one, which becomes
+  // the waiver new registrations sign
+  async publishWaiver(waiver: InsertWaiver, createdBy: number): Promise<Waiver> {
+    return await db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ version: sql<number>`COALESCE(MAX(${waivers.version}), 0)` })
+        .from(waivers);
+      const [published] = await tx
+        .insert(waivers)
+        .values({ ...waiver, version: latest.version + 1, createdBy })
+        .returning();
+      return published;
+    });
+  }
+
+  // Used when the holder fills in details after registering, e.g. after a transfer
+  async saveParticipantInfo(registrationId: number, participant: ParticipantRecord & { userId: number }): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (participant.acceptance) {
+        await tx.insert(waiverAcceptances).values({
+          ...participant.acceptance,
+          registrationId,
+          userId: participant.userId,
+        });
+      }
+      await tx
+        .insert(registrationEmergencyInfo)
+        .values({ ...participant.emergencyInfo, registrationId })
+        .onConflictDoUpdate({
+          target: registrationEmergencyInfo.registrationId,
+          set: { ...participant.emergencyInfo, updatedAt: new Date() },
+        });
+    });
+  }
+
+  async getRegistrationEmergencyInfo(registrationId: number): Promise<RegistrationEmergencyInfo | undefined> {
+    const [info] = await db
+      .select()
+      .from(registrationEmergencyInfo)
+      .where(eq(registrationEmergencyInfo.registrationId, registrationId));
+    return info;
+  }
+
+  async getWaiverAcceptance(registrationId: number, userId: number): Promise<WaiverAcceptance | undefined> {
+    const [acceptance] = await db
+      .select()
+      .from(waiverAcceptances)
+      .where(and(eq(waiverAcceptances.registrationId, registrationId), eq(waiverAcceptances.userId, userId)))
+      .orderBy(desc(waiverAcceptances.signedAt))
+      .limit(1);
+    return acceptance;
+  }
+
+  async getUserWaiverAcceptances(userId: number): Promise<(WaiverAcceptance & { waiverVersion: number })[]> {
+    const rows = await db
+      .select({ acceptance: waiverAcceptances, waiverVersion: waivers.version })
+      .from(waiverAcceptances)
+      .innerJoin(waivers, eq(waivers.id, waiverAcceptances.waiverId))
+      .where(eq(waiverAcceptances.userId, userId))
+      .orderBy(asc(waiverAcceptances.signedAt));
+    return rows.map(({ acceptance, waiverVersion }) => ({ ...acceptance, waiverVersion }));
+  }
+
+  async getUserEmergencyInfo(userId: number): Promise<RegistrationEmergencyInfo[]> {
+    const rows = await db
+      .select({ info: registrationEmergencyInfo })
+      .from(registrationEmergencyInfo)
+      .innerJoin(registrations, eq(registrations.id, registrationEmergencyInfo.registrationId))
+      .where(eq(registrations.userId, userId));
+    return rows.map(({ info }) => info);
+  }
+
+  async getEmergencyRoster(eventId: number): Promise<EmergencyRosterEntry[]> {
+    const rows = await db
+      .select({
+        registration: registrations,
+        user: users,
+        emergencyInfo: registrationEmergencyInfo,
+        acceptance: waiverAcceptances,
+        waiverVersion: waivers.version,
+      })
+      .from(registrations)
+      .innerJoin(users, eq(users.id, registrations.userId))
+      .leftJoin(registrationEmergencyInfo, eq(registrationEmergencyInfo.registrationId, registrations.id))
+      .leftJoin(waiverAcceptances, and(
+        eq(waiverAcceptances.registrationId, registrations.id),
+        eq(waiverAcceptances.userId, registrations.userId),
+      ))
+      .leftJoin(waivers, eq(waivers.id, waiverAcceptances.waiverId))
+      .where(and(eq(registrations.eventId, eventId), eq(registrations.status, "confirmed")))
+      .orderBy(asc(users.username), desc(waiverAcceptances.signedAt));
+
+    // A holder who signed more than once appears once, with their latest signature
+    const seen = new Set<number>();
+    return rows.filter(({ registration }) => {
+      if (seen.has(registration.id)) {
+        return false;
+      }
+      seen.add(registration.id);
+      return true;
+    });
+  }
+
+  async getUserEventWaitlistEntries(userId: number): Promise<EventWaitlistEntry[]> {
+    return await db
+      .select()
+      .from(eventWaitlistEntries)
+      .where(eq(eventWaitlistEntries.userId, userId))
+      .orderBy(asc(eventWaitlistEntries.createdAt));
+  }
+
+  async getActiveWaitlistEntry(userId: number, eventId: number): Promise<EventWaitlistEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(eventWaitlistEntries)
+      .where(and(
+        eq(eventWaitlistEntries.userId, userId),
+        eq(eventWaitlistEntries.eventId, eventId),
+        or(eq(eventWaitlistEntries.status, "waiting"), offerHoldsSpot),
+      ));
+    return entry;
+  }
+
+  // 1-based place in the queue among members still waiting
+  async getWaitlistPosition(entry: EventWaitlistEntry): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(eventWaitlistEntries)
+      .where(and(
+        eq(eventWaitlistEntries.eventId, entry.eventId),
+        eq(eventWaitlistEntries.status, "waiting"),
+        lt(eventWaitlistEntries.id, entry.id),
+      ));
+    return result.count + 1;
+  }
+
+  async countWaitingEntries(eventId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(eventWaitlistEntries)
+      .where(and(eq(eventWaitlistEntries.eventId, eventId), eq(eventWaitlistEntries.status, "waiting")));
+    return result.count;
+  }
+
+  async countOpenWaitlistOffers(eventId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(eventWaitlistEntries)
+      .where(and(eq(eventWaitlistEntries.eventId, eventId), offerHoldsSpot));
+    return result.count;
+  }
+
+  async joinEventWaitlist(userId: number, eventId: number): Promise<EventWaitlistEntry> {
+    const [entry] = await db.insert(eventWaitlistEntries).values({ userId, eventId }).returning();
+    return entry;
+  }
+
+  async leaveEventWaitlist(id: number): Promise<EventWaitlistEntry | undefined> {
+    const [entry] = await db
+      .update(eventWaitlistEntries)
+      .set({ status: "left" })
+      .where(and(eq(eventWaitlistEntries.id, id), inArray(eventWaitlistEntries.status, ["waiting", "offered"])))
+      .returning();
+    return entry;
+  }
+
+  // Offers every free spot to the next people in line, under the same event
+  // lock used for registrations so a spot is never offered twice.
+  async offerWaitlistSpots(eventId: number, offerExpiresAt: Date): Promise<EventWaitlistEntry[]> {
+    return await db.transaction(async (tx) => {
+      const [event] = await tx
+        .select({ capacity: events.capacity, cancelledAt: events.cancelledAt })
+        .from(events)
+        .where(eq(events.id, eventId))
+        .for("update");
+      if (!event || event.cancelledAt) {
+        return [];
+      }
+
+      const [taken] = await tx
+        .select({ count: count() })
+        .from(registrations)
+        .where(and(eq(registrations.eventId, eventId), holdsSpot));
+      const [reserved] = await tx
+        .select({ count: count() })
+        .from(eventWaitlistEntries)
+        .where(and(eq(eventWaitlistEntries.eventId, eventId), offerHoldsSpot));
+      const free = event.capacity - taken.count - reserved.count;
+      if (free <= 0) {
+        return [];
+      }
+
+      const next = await tx
+        .select({ id: eventWaitlistEntries.id })
+        .from(eventWaitlistEntries)
+        .where(and(eq(eventWaitlistEntries.eventId, eventId), eq(eventWaitlistEntries.status, "waiting")))
+        .orderBy(eventWaitlistEntries.id)
+        .limit(free);
+      if (next.length === 0) {
+        return [];
+      }
+
+      return await tx
+        .update(eventWaitlistEntries)
+        .set({ status: "offered", offeredAt: new Date(), offerExpiresAt })
+        .where(inArray(eventWaitlistEntries.id, next.map(({ id }) => id)))
+        .returning();
+    });
+  }
+
+  async getExpiredWaitlistOffers(): Promise<EventWaitlistEntry[]> {
+    return await db
+      .select()
+      .from(eventWaitlistEntries)
+      .where(and(eq(eventWaitlistEntries.status, "offered"), lt(eventWaitlistEntries.offerExpiresAt, new Date())));
+  }
+
+  async expireWaitlistOffer(id: number): Promise<boolean> {
+    const expired = await db
+      .update(eventWaitlistEntries)
+      .set({ status: "expired" })
+      .where(and(eq(eventWaitlistEntries.id, id), eq(eventWaitlistEntries.status, "offered")))
+      .returning({ id: eventWaitlistEntries.id });
+    return expired.length > 0;
+  }
+
   async addToWaitlist(email: InsertWaitlist): Promise<Waitlist> {
     const [entry] = await db.insert(waitlist).values(email).returning();
     return entry;
@@ -137,6 +1551,11 @@ export class DatabaseStorage implements IStorage {
     return !!entry;
   }
 
+  async getWaitlistEntry(email: string): Promise<Waitlist | undefined> {
+    const [entry] = await db.select().from(waitlist).where(eq(waitlist.email, email));
+    return entry;
+  }
+
   async getProduct(id: number): Promise<Product | undefined> {
     const [product] = await db.select().from(products).where(eq(products.id, id));
     return product;
@@ -150,18 +1569,60 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(products).where(eq(products.category, category));
   }
 
-  async createProduct(product: InsertProduct): Promise<Product> {
-    const [newProduct] = await db.insert(products).values(product).returning();
-    return newProduct;
+  async getProductsByIds(ids: number[]): Promise<Product[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return await db.select().from(products).where(inArray(products.id, ids));
   }
 
-  async updateProductStock(id: number, quantity: number): Promise<Product> {
-    const [updatedProduct] = await db
-      .update(products)
-      .set({ stock: quantity })
-      .where(eq(products.id, id))
-      .returning();
-    return updatedProduct;
+  async createProduct(product: InsertProduct, createdBy?: number): Promise<Product> {
+    return await db.transaction(async (tx) => {
+      const [newProduct] = await tx.insert(products).values(product).returning();
+      await tx.insert(inventoryMovements).values({
+        productId: newProduct.id,
+        reason: "initial",
+        stockChange: newProduct.stock,
+        createdBy,
+      });
+      return newProduct;
+    });
+  }
+
+  // Sets the stock counted on hand. Units held by unpaid orders can't be
+  // counted away, so the new figure must cover them.
+  async updateProductStock(id: number, quantity: number, note: string, createdBy: number): Promise<StockAdjustmentResult> {
+    return await db.transaction(async (tx) => {
+      const [product] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      if (!product) {
+        return { status: "not_found" };
+      }
+      if (quantity < product.reserved) {
+        return { status: "below_reserved", reserved: product.reserved };
+      }
+
+      const [updatedProduct] = await tx
+        .update(products)
+        .set({ stock: quantity })
+        .where(eq(products.id, id))
+        .returning();
+      await tx.insert(inventoryMovements).values({
+        productId: id,
+        reason: "adjustment",
+        stockChange: quantity - product.stock,
+        note,
+        createdBy,
+      });
+      return { status: "updated", product: updatedProduct };
+    });
+  }
+
+  async getProductInventoryMovements(productId: number): Promise<InventoryMovement[]> {
+    return await db
+      .select()
+      .from(inventoryMovements)
+      .where(eq(inventoryMovements.productId, productId))
+      .orderBy(desc(inventoryMovements.createdAt), desc(inventoryMovements.id));
   }
 
   async getOrder(id: number): Promise<Order | undefined> {
@@ -178,6 +1639,61 @@ export class DatabaseStorage implements IStorage {
     return newOrder;
   }
 
+  // Reserves stock for every item and writes the order in one transaction.
+  // Product rows are locked in id order so concurrent checkouts queue up
+  // rather than both selling the last unit.
+  async createOrderWithItems(
+    order: InsertOrder,
+    items: Omit<InsertOrderItem, "orderId">[]
+  ): Promise<OrderReservationResult> {
+    return await db.transaction(async (tx) => {
+      const locked = await tx
+        .select()
+        .from(products)
+        .where(inArray(products.id, items.map((item) => item.productId)))
+        .orderBy(asc(products.id))
+        .for("update");
+
+      const short = locked.filter((product) => {
+        const item = items.find((candidate) => candidate.productId === product.id)!;
+        return product.stock - product.reserved < item.quantity;
+      });
+      if (short.length > 0) {
+        return { status: "out_of_stock", products: short };
+      }
+
+      const [newOrder] = await tx
+        .insert(orders)
+        .values({ ...order, inventoryStatus: "reserved" })
+        .returning();
+      await tx.insert(orderItems).values(items.map((item) => ({ ...item, orderId: newOrder.id })));
+
+      for (const item of items) {
+        await tx
+          .update(products)
+          .set({ reserved: sql`${products.reserved} + ${item.quantity}` })
+          .where(eq(products.id, item.productId));
+      }
+      await tx.insert(inventoryMovements).values(items.map((item) => ({
+        productId: item.productId,
+        orderId: newOrder.id,
+        reason: "reserve",
+        reservedChange: item.quantity,
+      })));
+
+      return { status: "created", order: newOrder };
+    });
+  }
+
+  async setOrderPaymentIntent(id: number, paymentIntentId: string): Promise<Order> {
+    const [order] = await db
+      .update(orders)
+      .set({ paymentIntentId, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
   async updateOrderStatus(id: number, status: string): Promise<Order> {
     const [updatedOrder] = await db
       .update(orders)
@@ -187,15 +1703,265 @@ export class DatabaseStorage implements IStorage {
     return updatedOrder;
   }
 
+  async getOrderByPaymentIntent(paymentIntentId: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.paymentIntentId, paymentIntentId));
+    return order;
+  }
+
+  // Only a pending order can be paid, so a redelivered or late event is a
+  // no-op. Its reserved units leave stock in the same transaction.
+  async markOrderPaid(paymentIntentId: string): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .update(orders)
+        .set({ status: "paid", paidAt: new Date(), paymentError: null, reservationExpiresAt: null, updatedAt: new Date() })
+        .where(and(eq(orders.paymentIntentId, paymentIntentId), eq(orders.status, "pending")))
+        .returning();
+      if (!order || order.inventoryStatus !== "reserved") {
+        return order;
+      }
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+      for (const item of items) {
+        await tx
+          .update(products)
+          .set({
+            stock: sql`${products.stock} - ${item.quantity}`,
+            reserved: sql`${products.reserved} - ${item.quantity}`,
+          })
+          .where(eq(products.id, item.productId));
+      }
+      await tx.insert(inventoryMovements).values(items.map((item) => ({
+        productId: item.productId,
+        orderId: order.id,
+        reason: "commit",
+        stockChange: -item.quantity,
+        reservedChange: -item.quantity,
+      })));
+
+      const [committed] = await tx
+        .update(orders)
+        .set({ inventoryStatus: "committed" })
+        .where(eq(orders.id, order.id))
+        .returning();
+      return committed;
+    });
+  }
+
+  async recordOrderPaymentFailure(paymentIntentId: string, message: string): Promise<Order | undefined> {
+    const [order] = await db
+      .update(orders)
+      .set({ paymentError: message, updatedAt: new Date() })
+      .where(and(eq(orders.paymentIntentId, paymentIntentId), eq(orders.status, "pending")))
+      .returning();
+    return order;
+  }
+
+  // Only a paid order becomes refunded; a cancelled one keeps its status and
+  // just records what was paid back
+  async recordOrderRefund(id: number, amountRefunded: string, fullyRefunded: boolean): Promise<Order> {
+    const [order] = await db
+      .update(orders)
+      .set({
+        amountRefunded,
+        ...(fullyRefunded
+          ? { status: sql`CASE WHEN ${orders.status} = 'paid' THEN 'refunded' ELSE ${orders.status} END` }
+          : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  async setOrderDisputeStatus(id: number, disputeStatus: string): Promise<Order> {
+    const [order] = await db
+      .update(orders)
+      .set({ disputeStatus, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  // Cancels an unpaid order and hands its reserved units back
+  async cancelPendingOrder(id: number): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, id), eq(orders.status, "pending")))
+        .for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      if (current.inventoryStatus === "reserved") {
+        const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, id));
+        for (const item of items) {
+          await tx
+            .update(products)
+            .set({ reserved: sql`${products.reserved} - ${item.quantity}` })
+            .where(eq(products.id, item.productId));
+        }
+        await tx.insert(inventoryMovements).values(items.map((item) => ({
+          productId: item.productId,
+          orderId: id,
+          reason: "release",
+          reservedChange: -item.quantity,
+        })));
+      }
+
+      const [cancelled] = await tx
+        .update(orders)
+        .set({
+          status: "cancelled",
+          inventoryStatus: current.inventoryStatus === "reserved" ? "released" : current.inventoryStatus,
+          reservationExpiresAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, id))
+        .returning();
+      return cancelled;
+    });
+  }
+
+  async getExpiredOrderReservations(): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.status, "pending"), lt(orders.reservationExpiresAt, new Date())));
+  }
+
+  // Puts everything not already returned back on the shelf
+  async cancelPaidOrder(id: number, createdBy: number): Promise<OrderRestockResult> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      // A refund issued just before cancelling may already have marked it refunded
+      if (!current || !["paid", "refunded"].includes(current.status)) {
+        return { status: "invalid", message: "Only paid orders that haven't shipped can be cancelled" };
+      }
+
+      // Units only left stock if the sale was committed against it
+      const outstanding = current.inventoryStatus === "committed"
+        ? await getUnreturnedQuantities(tx, id)
+        : new Map<number, number>();
+      const restocked = Array.from(outstanding).filter(([, quantity]) => quantity > 0);
+      for (const [productId, quantity] of restocked) {
+        await tx
+          .update(products)
+          .set({ stock: sql`${products.stock} + ${quantity}` })
+          .where(eq(products.id, productId));
+      }
+      if (restocked.length > 0) {
+        await tx.insert(inventoryMovements).values(restocked.map(([productId, quantity]) => ({
+          productId,
+          orderId: id,
+          reason: "cancel",
+          stockChange: quantity,
+          createdBy,
+        })));
+      }
+
+      const [cancelled] = await tx
+        .update(orders)
+        .set({
+          status: "cancelled",
+          inventoryStatus: current.inventoryStatus === "committed" ? "restocked" : current.inventoryStatus,
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, id))
+        .returning();
+      return { status: "restocked", order: cancelled };
+    });
+  }
+
+  // Returned units go back into stock; an item can't be returned more times
+  // than it was bought
+  async returnOrderItems(
+    id: number,
+    items: { productId: number; quantity: number }[],
+    note: string | null,
+    createdBy: number
+  ): Promise<OrderRestockResult> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!current || !["paid", "shipped", "delivered"].includes(current.status) || current.inventoryStatus !== "committed") {
+        return { status: "invalid", message: "Only paid orders can have returns" };
+      }
+
+      const outstanding = await getUnreturnedQuantities(tx, id);
+      for (const item of items) {
+        if ((outstanding.get(item.productId) ?? 0) < item.quantity) {
+          return { status: "invalid", message: `Product ${item.productId} can't have ${item.quantity} returned` };
+        }
+        outstanding.set(item.productId, outstanding.get(item.productId)! - item.quantity);
+      }
+
+      for (const item of items) {
+        await tx
+          .update(products)
+          .set({ stock: sql`${products.stock} + ${item.quantity}` })
+          .where(eq(products.id, item.productId));
+      }
+      await tx.insert(inventoryMovements).values(items.map((item) => ({
+        productId: item.productId,
+        orderId: id,
+        reason: "return",
+        stockChange: item.quantity,
+        note,
+        createdBy,
+      })));
+
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({ updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+      return { status: "restocked", order: updatedOrder };
+    });
+  }
+
   async getOrderItems(orderId: number): Promise<OrderItem[]> {
     return await db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
   }
 
+  async getOrderItemDetails(orderId: number): Promise<OrderItemDetail[]> {
+    const rows = await db
+      .select({ item: orderItems, productName: products.name, imageUrl: products.imageUrl })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(asc(orderItems.id));
+    return rows.map(({ item, productName, imageUrl }) => ({ ...item, productName, imageUrl }));
+  }
+
   async createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem> {
     const [newOrderItem] = await db.insert(orderItems).values(orderItem).returning();
     return newOrderItem;
   }
 
+  async getDiscountCodeByCode(code: string): Promise<DiscountCode | undefined> {
+    const [discountCode] = await db
+      .select()
+      .from(discountCodes)
+      .where(eq(discountCodes.code, code.toUpperCase()));
+    return discountCode;
+  }
+
+  // Returns false when the event was already claimed by an earlier delivery
+  async claimStripeEvent(id: string, type: string): Promise<boolean> {
+    const claimed = await db
+      .insert(stripeEvents)
+      .values({ id, type })
+      .onConflictDoNothing()
+      .returning({ id: stripeEvents.id });
+    return claimed.length > 0;
+  }
+
+  async releaseStripeEvent(id: string): Promise<void> {
+    await db.delete(stripeEvents).where(eq(stripeEvents.id, id));
+  }
+
   async getAllUsers(): Promise<User[]> {
     return await db.select().from(users);
   }
@@ -204,10 +1970,10 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(orders);
   }
 
-  async updateUserRole(userId: number, isAdmin: boolean): Promise<User> {
+  async updateUserRole(userId: number, roles: Role[]): Promise<User> {
     const [updatedUser] = await db
       .update(users)
-      .set({ isAdmin })
+      .set({ roles, isAdmin: roles.includes("super-admin") })
       .where(eq(users.id, userId))
       .returning();
     return updatedUser;
@@ -0,0 +1,31 @@
+// Events only record when they start, so calendars get a typical hike length
+export const DEFAULT_EVENT_DURATION_MS = 3 * 60 * 60 * 1000;
+
+export function getEventEnd(start: Date): Date {
+  return new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS);
+}
+
+// UTC in the compact form used by iCalendar and Google Calendar, e.g. "20240601T133000Z"
+export function toCalendarUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+interface CalendarEvent {
+  title: string;
+  description: string;
+  location: string;
+  date: Date | string;
+}
+
+// Link that opens a pre-filled "new event" page in Google Calendar
+export function getGoogleCalendarUrl(event: CalendarEvent, eventUrl: string): string {
+  const start = new Date(event.date);
+  const params = new URLSearchParams({
+    action: "TEMPLATE",
+    text: event.title,
+    dates: `${toCalendarUtc(start)}/${toCalendarUtc(getEventEnd(start))}`,
+    location: event.location,
+    details: `${event.description}\n\n${eventUrl}`,
+  });
+  return `https://calendar.google.com/calendar/render?${params}`;
+}
@@ -0,0 +1,68 @@
+export const PERMISSIONS = [
+  "events:manage",
+  "registrations:view",
+  "registrations:checkin",
+  "registrations:medical",
+  "products:manage",
+  "orders:view",
+  "orders:manage",
+  "orders:refund",
+  "users:view",
+  "users:manage",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLES = {
+  "event-coordinator": {
+    label: "Event Coordinator",
+    permissions: ["events:manage", "registrations:view", "registrations:checkin", "registrations:medical"],
+  },
+  "shop-manager": {
+    label: "Shop Manager",
+    permissions: ["products:manage", "orders:view", "orders:manage"],
+  },
+  "support": {
+    label: "Support",
+    permissions: ["registrations:view", "orders:view", "orders:refund", "users:view"],
+  },
+  "super-admin": {
+    label: "Super Admin",
+    permissions: [...PERMISSIONS],
+  },
+} satisfies Record<string, { label: string; permissions: readonly Permission[] }>;
+
+export type Role = keyof typeof ROLES;
+
+export const ROLE_NAMES = Object.keys(ROLES) as Role[];
+
+interface RoleHolder {
+  roles: string[] | null;
+  isAdmin: boolean;
+}
+
+export function getPermissions(user: RoleHolder | null | undefined): Set<Permission> {
+  const permissions = new Set<Permission>();
+  if (!user) {
+    return permissions;
+  }
+
+  // Accounts flagged with the legacy isAdmin boolean keep full access until
+  // they are assigned explicit roles.
+  const roles = user.roles?.length ? user.roles : user.isAdmin ? ["super-admin"] : [];
+  for (const role of roles) {
+    if (role in ROLES) {
+      ROLES[role as Role].permissions.forEach((permission) => permissions.add(permission));
+    }
+  }
+  return permissions;
+}
+
+export function hasPermission(user: RoleHolder | null | undefined, permission: Permission): boolean {
+  return getPermissions(user).has(permission);
+}
+
+// Whether the user can reach any part of the admin panel
+export function hasAdminAccess(user: RoleHolder | null | undefined): boolean {
+  return getPermissions(user).size > 0;
+}
@@ -0,0 +1,29 @@
+// Price breakdowns are worked out on the server and sent to checkout as-is.
+// Every amount is in cents.
+
+export interface PriceLine {
+  productId: number;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  previousUnitPrice?: number; // Set when the cart showed a different price
+}
+
+export interface PriceBreakdown {
+  lines: PriceLine[];
+  subtotal: number;
+  discountCode: string | null;
+  discount: number;
+  shippingCarrier: string;
+  shippingService: string;
+  shipping: number;
+  taxRate: number; // e.g. 0.0775
+  tax: number;
+  total: number;
+  priceChanged: boolean;
+}
+
+export function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { describeRecurrence, listOccurrenceDates, recurrenceRuleSchema, type RecurrenceWindow } from "./recurrence";
+
+function series(fields: Partial<RecurrenceWindow> & Pick<RecurrenceWindow, "rule">): RecurrenceWindow {
+  return { startDate: "2024-01-01", endDate: null, exceptions: [], ...fields };
+}
+
+describe("listOccurrenceDates", () => {
+  it("lists every matching weekday in the window", () => {
+    const saturdays = series({ rule: { frequency: "weekly", weekday: 6, interval: 1 } });
+
+    assert.deepEqual(listOccurrenceDates(saturdays, "2024-03-01", "2024-03-31"), [
+      "2024-03-02",
+      "2024-03-09",
+      "2024-03-16",
+      "2024-03-23",
+      "2024-03-30",
+    ]);
+  });
+
+  it("keeps an every-other-week rhythm from the series start", () => {
+    // Starts on Saturday 6 January, so 20 January is on and 27 January is off
+    const fortnightly = series({ startDate: "2024-01-06", rule: { frequency: "weekly", weekday: 6, interval: 2 } });
+
+    assert.deepEqual(listOccurrenceDates(fortnightly, "2024-01-14", "2024-02-29"), [
+      "2024-01-20",
+      "2024-02-03",
+      "2024-02-17",
+    ]);
+  });
+
+  it("finds the last weekday of each month", () => {
+    const lastSunday = series({ rule: { frequency: "monthly", weekday: 0, week: -1 } });
+
+    assert.deepEqual(listOccurrenceDates(lastSunday, "2024-01-01", "2024-04-30"), [
+      "2024-01-28",
+      "2024-02-25",
+      "2024-03-31",
+      "2024-04-28",
+    ]);
+  });
+
+  it("skips months without a fifth weekday", () => {
+    const fifthFriday = series({ rule: { frequency: "monthly", weekday: 5, week: 5 } });
+
+    assert.deepEqual(listOccurrenceDates(fifthFriday, "2024-01-01", "2024-06-30"), ["2024-03-29", "2024-05-31"]);
+  });
+
+  it("stays within the series start and end and leaves out exceptions", () => {
+    const bounded = series({
+      startDate: "2024-05-08",
+      endDate: "2024-05-29",
+      exceptions: ["2024-05-15"],
+      rule: { frequency: "weekly", weekday: 3, interval: 1 },
+    });
+
+    assert.deepEqual(listOccurrenceDates(bounded, "2024-05-01", "2024-06-30"), ["2024-05-08", "2024-05-22", "2024-05-29"]);
+  });
+
+  it("is not thrown by daylight saving changes", () => {
+    const sundays = series({ rule: { frequency: "weekly", weekday: 0, interval: 1 } });
+
+    assert.deepEqual(listOccurrenceDates(sundays, "2024-03-01", "2024-03-17"), ["2024-03-03", "2024-03-10", "2024-03-17"]);
+    assert.deepEqual(listOccurrenceDates(sundays, "2024-10-28", "2024-11-10"), ["2024-11-03", "2024-11-10"]);
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("describes weekly and monthly rules", () => {
+    assert.equal(describeRecurrence({ frequency: "weekly", weekday: 6, interval: 1 }), "Every Saturday");
+    assert.equal(describeRecurrence({ frequency: "weekly", weekday: 2, interval: 3 }), "Every 3 weeks on Tuesday");
+    assert.equal(describeRecurrence({ frequency: "monthly", weekday: 0, week: -1 }), "The last Sunday of every month");
+    assert.equal(describeRecurrence({ frequency: "monthly", weekday: 1, week: 2 }), "The second Monday of every month");
+  });
+});
+
+describe("recurrenceRuleSchema", () => {
+  it("defaults the weekly interval and rejects out-of-range values", () => {
+    assert.deepEqual(recurrenceRuleSchema.parse({ frequency: "weekly", weekday: 4 }), {
+      frequency: "weekly",
+      weekday: 4,
+      interval: 1,
+    });
+    assert.equal(recurrenceRuleSchema.safeParse({ frequency: "weekly", weekday: 7 }).success, false);
+    assert.equal(recurrenceRuleSchema.safeParse({ frequency: "monthly", weekday: 1, week: 0 }).success, false);
+  });
+});
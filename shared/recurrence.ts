@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const ORDINALS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", 5: "fifth", [-1]: "last" };
+
+const weekday = z.number().int().min(0).max(6); // 0 = Sunday
+
+export const recurrenceRuleSchema = z.discriminatedUnion("frequency", [
+  z.object({
+    frequency: z.literal("weekly"),
+    weekday,
+    interval: z.number().int().min(1).max(4).default(1), // Every n weeks
+  }),
+  z.object({
+    frequency: z.literal("monthly"),
+    weekday,
+    week: z.union([z.literal(-1), z.number().int().min(1).max(5)]), // -1 = last in the month
+  }),
+]);
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const day = WEEKDAYS[rule.weekday];
+  if (rule.frequency === "monthly") {
+    return `The ${ORDINALS[rule.week]} ${day} of every month`;
+  }
+  return rule.interval === 1 ? `Every ${day}` : `Every ${rule.interval} weeks on ${day}`;
+}
+
+// Calendar dates are handled as UTC midnights so day arithmetic is not
+// affected by daylight saving changes.
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, week: number): Date | null {
+  if (week === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+    return last;
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  const date = new Date(Date.UTC(year, month, 1 + ((weekday - first.getUTCDay() + 7) % 7) + (week - 1) * 7));
+  // A fifth weekday does not exist in every month
+  return date.getUTCMonth() === month ? date : null;
+}
+
+export interface RecurrenceWindow {
+  rule: RecurrenceRule;
+  startDate: string;
+  endDate: string | null;
+  exceptions: string[];
+}
+
+// Lists the local calendar dates ("2024-06-01") on which a series occurs
+// between from and until inclusive, skipping its exceptions.
+export function listOccurrenceDates(series: RecurrenceWindow, from: string, until: string): string[] {
+  const first = parseDate(series.startDate > from ? series.startDate : from);
+  const last = parseDate(series.endDate && series.endDate < until ? series.endDate : until);
+  const start = parseDate(series.startDate);
+  const skipped = new Set(series.exceptions);
+  const dates: Date[] = [];
+  const { rule } = series;
+
+  if (rule.frequency === "weekly") {
+    // Anchor on the first matching weekday on or after the series start so
+    // every-n-weeks series keep their rhythm whatever window is requested
+    const anchor = new Date(start);
+    anchor.setUTCDate(anchor.getUTCDate() + ((rule.weekday - anchor.getUTCDay() + 7) % 7));
+    const step = rule.interval * 7;
+    const date = new Date(anchor);
+    if (first > anchor) {
+      const stepsToFirst = Math.ceil((first.getTime() - anchor.getTime()) / (step * 86400000));
+      date.setUTCDate(date.getUTCDate() + stepsToFirst * step);
+    }
+    for (; date <= last; date.setUTCDate(date.getUTCDate() + step)) {
+      dates.push(new Date(date));
+    }
+  } else {
+    const month = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), 1));
+    for (; month <= last; month.setUTCMonth(month.getUTCMonth() + 1)) {
+      const date = nthWeekdayOfMonth(month.getUTCFullYear(), month.getUTCMonth(), rule.weekday, rule.week);
+      if (date && date >= first && date <= last) {
+        dates.push(date);
+      }
+    }
+  }
+
+  return dates.map(formatDate).filter((date) => !skipped.has(date));
+}
@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { describeRefundPolicy, getRefundPercent } from "./refund-policy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EVENT_DATE = new Date("2024-06-15T13:30:00Z");
+
+function daysBefore(days: number): Date {
+  return new Date(EVENT_DATE.getTime() - days * DAY_MS);
+}
+
+describe("getRefundPercent", () => {
+  const policy = { fullRefundDaysBefore: 7, partialRefundPercent: 50 };
+
+  it("refunds in full up to the cutoff", () => {
+    assert.equal(getRefundPercent(policy, EVENT_DATE, daysBefore(30)), 100);
+    assert.equal(getRefundPercent(policy, EVENT_DATE, daysBefore(7)), 100);
+  });
+
+  it("refunds part after the cutoff", () => {
+    assert.equal(getRefundPercent(policy, EVENT_DATE, daysBefore(6.9)), 50);
+    assert.equal(getRefundPercent(policy, EVENT_DATE, daysBefore(1)), 50);
+  });
+
+  it("never refunds within a day of the start, whatever the policy says", () => {
+    assert.equal(getRefundPercent(policy, EVENT_DATE, daysBefore(0.5)), 0);
+    assert.equal(getRefundPercent({ fullRefundDaysBefore: 0, partialRefundPercent: 100 }, EVENT_DATE, daysBefore(0.5)), 0);
+    assert.equal(getRefundPercent(policy, EVENT_DATE, daysBefore(-1)), 0);
+  });
+
+  it("falls back to the default policy", () => {
+    assert.equal(getRefundPercent(null, EVENT_DATE, daysBefore(8)), 100);
+    assert.equal(getRefundPercent(undefined, EVENT_DATE.toISOString(), daysBefore(3)), 50);
+  });
+});
+
+describe("describeRefundPolicy", () => {
+  it("spells out both tiers", () => {
+    assert.deepEqual(describeRefundPolicy({ fullRefundDaysBefore: 7, partialRefundPercent: 50 }), [
+      "Full refund when you cancel at least 7 days before the event.",
+      "50% refund after that, up to 24 hours before the start.",
+      "No refund for cancellations within 24 hours of the start.",
+    ]);
+  });
+
+  it("says when there is no partial refund", () => {
+    assert.equal(describeRefundPolicy({ fullRefundDaysBefore: 3, partialRefundPercent: 0 })[1], "No refund after that.");
+  });
+
+  it("collapses to one tier when the cutoff is a day or less", () => {
+    assert.deepEqual(describeRefundPolicy({ fullRefundDaysBefore: 1, partialRefundPercent: 50 }), [
+      "Full refund when you cancel at least 24 hours before the start.",
+      "No refund for cancellations within 24 hours of the start.",
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+export const refundPolicySchema = z.object({
+  fullRefundDaysBefore: z.number().int().min(0),
+  partialRefundPercent: z.number().int().min(0).max(100),
+});
+
+export type RefundPolicy = z.infer<typeof refundPolicySchema>;
+
+// Used for events created before refund policies existed or saved without one
+export const DEFAULT_REFUND_POLICY: RefundPolicy = {
+  fullRefundDaysBefore: 7,
+  partialRefundPercent: 50,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cancellations within a day of the start are never refunded
+export function getRefundPercent(
+  policy: RefundPolicy | null | undefined,
+  eventDate: Date | string,
+  cancelledAt: Date = new Date()
+): number {
+  const { fullRefundDaysBefore, partialRefundPercent } = policy ?? DEFAULT_REFUND_POLICY;
+  const msBefore = new Date(eventDate).getTime() - cancelledAt.getTime();
+
+  if (msBefore >= fullRefundDaysBefore * DAY_MS && msBefore >= DAY_MS) {
+    return 100;
+  }
+  if (msBefore >= DAY_MS) {
+    return partialRefundPercent;
+  }
+  return 0;
+}
+
+export function describeRefundPolicy(policy: RefundPolicy | null | undefined): string[] {
+  const { fullRefundDaysBefore, partialRefundPercent } = policy ?? DEFAULT_REFUND_POLICY;
+  const days = `${fullRefundDaysBefore} day${fullRefundDaysBefore === 1 ? "" : "s"}`;
+  const lines = [];
+
+  if (fullRefundDaysBefore > 1) {
+    lines.push(`Full refund when you cancel at least ${days} before the event.`);
+    lines.push(partialRefundPercent > 0
+      ? `${partialRefundPercent}% refund after that, up to 24 hours before the start.`
+      : "No refund after that.");
+  } else {
+    lines.push("Full refund when you cancel at least 24 hours before the start.");
+  }
+  lines.push("No refund for cancellations within 24 hours of the start.");
+  return lines;
+}
@@ -1,14 +1,109 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, decimal, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { refundPolicySchema, type RefundPolicy } from "./refund-policy";
+import { recurrenceRuleSchema, type RecurrenceRule } from "./recurrence";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email").notNull().unique(),
-  isAdmin: boolean("is_admin").default(false).notNull(),
+  isAdmin: boolean("is_admin").default(false).notNull(), // Legacy flag, kept in sync with the 'super-admin' role
+  roles: text("roles").array().default([]).notNull(), // See ROLES in shared/permissions.ts
   isVerified: boolean("is_verified").default(false).notNull(),
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(),
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"),
+  totpSecret: text("totp_secret"), // base32; never sent to the client
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // Rejects replay of an accepted code
+  displayName: text("display_name"),
+  phone: text("phone"),
+  emergencyContactName: text("emergency_contact_name"),
+  emergencyContactPhone: text("emergency_contact_phone"),
+  experienceLevel: text("experience_level"), // See EXPERIENCE_LEVELS
+  avatarUrl: text("avatar_url"),
+  pendingEmail: text("pending_email"), // New address awaiting confirmation
+  calendarFeedToken: text("calendar_feed_token").unique(), // Secret in the personal .ics feed URL; never sent with the user
+  deletedAt: timestamp("deleted_at"), // Set when the account is deleted and its personal data scrubbed
+});
+
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  codeHash: text("code_hash").notNull(), // SHA-256 of the one-time code
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const erasureRequests = pgTable("erasure_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected', 'completed'
+  reason: text("reason"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Record of privacy actions; holds ids and counts only, never the personal data itself
+export const privacyAuditLog = pgTable("privacy_audit_log", {
+  id: serial("id").primaryKey(),
+  subjectUserId: integer("subject_user_id").references(() => users.id).notNull(),
+  actorUserId: integer("actor_user_id").references(() => users.id), // null when the system acted
+  action: text("action").notNull(), // 'data_exported', 'erasure_requested', 'erasure_rejected', 'erasure_completed', 'account_deleted'
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the emailed token
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const userCredentials = pgTable("user_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  credentialId: text("credential_id").notNull().unique(), // base64url WebAuthn credential ID
+  publicKey: text("public_key").notNull(), // base64url COSE public key
+  counter: integer("counter").notNull(),
+  transports: text("transports").array(),
+  deviceType: text("device_type").notNull(), // 'singleDevice', 'multiDevice'
+  backedUp: boolean("backed_up").default(false).notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
+// Template for events that repeat; occurrences are materialized into events
+export const eventSeries = pgTable("event_series", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  location: text("location").notNull(),
+  capacity: integer("capacity").notNull(),
+  price: integer("price").notNull(),
+  imageUrl: text("image_url").notNull(),
+  refundPolicy: jsonb("refund_policy").$type<RefundPolicy>(),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>().notNull(),
+  startTime: text("start_time").notNull(), // "HH:mm" in EVENT_TIME_ZONE
+  startDate: date("start_date", { mode: "string" }).notNull(),
+  endDate: date("end_date", { mode: "string" }),
+  exceptions: text("exceptions").array().default([]).notNull(), // Skipped dates, "yyyy-MM-dd"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const events = pgTable("events", {
@@ -20,13 +115,73 @@ export const events = pgTable("events", {
   capacity: integer("capacity").notNull(),
   price: integer("price").notNull(),
   imageUrl: text("image_url").notNull(),
-});
+  refundPolicy: jsonb("refund_policy").$type<RefundPolicy>(), // Falls back to DEFAULT_REFUND_POLICY when null
+  seriesId: integer("series_id").references(() => eventSeries.id),
+  occurrenceDate: date("occurrence_date", { mode: "string" }), // Local date of a series occurrence
+  seriesOverride: boolean("series_override").default(false).notNull(), // Edited on its own; series changes skip it
+  cancelledAt: timestamp("cancelled_at"),
+  sequence: integer("sequence").default(0).notNull(), // Revision number for calendar feeds; bumped on every change
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.seriesId, table.occurrenceDate),
+]);
 
 export const registrations = pgTable("registrations", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
   eventId: integer("event_id").references(() => events.id).notNull(),
-  status: text("status").notNull(), // 'pending', 'confirmed', 'cancelled'
+  status: text("status").notNull(), // 'pending', 'confirmed', 'cancelled', 'expired'
+  paymentIntentId: text("payment_intent_id").unique(),
+  amountPaid: decimal("amount_paid"),
+  holdExpiresAt: timestamp("hold_expires_at"), // Pending paid registrations release their spot after this
+  cancelledAt: timestamp("cancelled_at"),
+  amountRefunded: decimal("amount_refunded"),
+  refundId: text("refund_id"),
+  transferredFromUserId: integer("transferred_from_user_id").references(() => users.id),
+  checkedInAt: timestamp("checked_in_at"),
+  checkedInBy: integer("checked_in_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Published waiver text; a new version is added rather than editing the old
+// one, so every acceptance points at the exact wording that was signed
+export const waivers = pgTable("waivers", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull().unique(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const waiverAcceptances = pgTable("waiver_acceptances", {
+  id: serial("id").primaryKey(),
+  registrationId: integer("registration_id").references(() => registrations.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(), // The holder at signing; transfers re-sign
+  waiverId: integer("waiver_id").references(() => waivers.id).notNull(),
+  signature: text("signature").notNull(), // Full name as typed by the member
+  ipAddress: text("ip_address"),
+  signedAt: timestamp("signed_at").defaultNow().notNull(),
+});
+
+// Kept apart from registrations so it only leaves the server through the
+// coordinator-only roster
+export const registrationEmergencyInfo = pgTable("registration_emergency_info", {
+  registrationId: integer("registration_id").references(() => registrations.id).primaryKey(),
+  emergencyContactName: text("emergency_contact_name").notNull(),
+  emergencyContactPhone: text("emergency_contact_phone").notNull(),
+  medicalNotes: text("medical_notes"), // Allergies, conditions or medication a trail leader should know about
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Members queued for a full event, separate from the site-wide mailing waitlist below
+export const eventWaitlistEntries = pgTable("event_waitlist_entries", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").references(() => events.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  status: text("status").notNull().default("waiting"), // 'waiting', 'offered', 'claimed', 'expired', 'left'
+  offeredAt: timestamp("offered_at"),
+  offerExpiresAt: timestamp("offer_expires_at"), // The offered spot passes to the next person after this
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -44,18 +199,32 @@ export const products = pgTable("products", {
   price: decimal("price").notNull(),
   imageUrl: text("image_url").notNull(),
   category: text("category").notNull(),
-  stock: integer("stock").notNull(),
+  stock: integer("stock").notNull(), // On hand, including units reserved by unpaid orders
+  reserved: integer("reserved").default(0).notNull(), // Held by pending orders; stock - reserved can be sold
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
-  status: text("status").notNull(), // 'pending', 'paid', 'shipped', 'delivered', 'cancelled'
+  status: text("status").notNull(), // 'pending', 'paid', 'shipped', 'delivered', 'cancelled', 'refunded'
   total: decimal("total").notNull(),
+  subtotal: decimal("subtotal"),
+  discountCode: text("discount_code"),
+  discountAmount: decimal("discount_amount"),
+  taxAmount: decimal("tax_amount"),
   shippingMethodId: integer("shipping_method_id").references(() => shippingMethods.id),
   shippingAddress: jsonb("shipping_address").notNull(),
   shippingCost: decimal("shipping_cost"),
+  shippingCarrier: text("shipping_carrier"),
+  shippingService: text("shipping_service"),
+  paymentIntentId: text("payment_intent_id").unique(),
+  paidAt: timestamp("paid_at"),
+  paymentError: text("payment_error"), // Why the last attempt was declined; the customer can retry
+  amountRefunded: decimal("amount_refunded"),
+  disputeStatus: text("dispute_status"), // Stripe's dispute status, e.g. 'needs_response', 'won', 'lost'
+  inventoryStatus: text("inventory_status"), // 'reserved', 'committed', 'released', 'restocked'
+  reservationExpiresAt: timestamp("reservation_expires_at"), // Unpaid orders give their stock back after this
   trackingNumber: text("tracking_number"),
   estimatedDeliveryDate: timestamp("estimated_delivery_date"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -70,6 +239,42 @@ export const orderItems = pgTable("order_items", {
   price: decimal("price").notNull(), // Price at time of purchase
 });
 
+// Every change to a product's stock or reservations, with the reason for it.
+// Summing stockChange for a product gives its stock.
+export const inventoryMovements = pgTable("inventory_movements", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  orderId: integer("order_id").references(() => orders.id),
+  reason: text("reason").notNull(), // 'initial', 'adjustment', 'reserve', 'release', 'commit', 'cancel', 'return'
+  stockChange: integer("stock_change").default(0).notNull(),
+  reservedChange: integer("reserved_change").default(0).notNull(),
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Codes are stored upper-case and matched case-insensitively. A code takes
+// either a percentage or a fixed amount off the merchandise subtotal.
+export const discountCodes = pgTable("discount_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  description: text("description"),
+  percentOff: integer("percent_off"),
+  amountOff: decimal("amount_off"),
+  minimumSubtotal: decimal("minimum_subtotal"),
+  expiresAt: timestamp("expires_at"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Stripe events already handled. Stripe delivers at least once, so each event
+// is claimed here before it is acted on.
+export const stripeEvents = pgTable("stripe_events", {
+  id: text("id").primaryKey(), // Stripe event id, e.g. evt_...
+  type: text("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
+});
+
 // Add new shipping-related tables
 export const shippingMethods = pgTable("shipping_methods", {
   id: serial("id").primaryKey(),
@@ -105,13 +310,119 @@ export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
 });
 
-export const insertEventSchema = createInsertSchema(events);
+export const EXPERIENCE_LEVELS = ["beginner", "intermediate", "advanced"] as const;
+
+export const updateProfileSchema = createInsertSchema(users).pick({
+  displayName: true,
+  phone: true,
+  emergencyContactName: true,
+  emergencyContactPhone: true,
+}).extend({
+  experienceLevel: z.enum(EXPERIENCE_LEVELS).nullable().optional(),
+  avatarUrl: z.string().url("Avatar must be a valid URL").nullable().optional(),
+});
+
+export const changeEmailSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  password: z.string().min(1, "Current password is required"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const insertPrivacyAuditLogSchema = createInsertSchema(privacyAuditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUserCredentialSchema = createInsertSchema(userCredentials).omit({
+  id: true,
+  createdAt: true,
+  lastUsedAt: true,
+});
+
+export const insertEventSchema = createInsertSchema(events).omit({
+  seriesId: true,
+  occurrenceDate: true,
+  seriesOverride: true,
+  cancelledAt: true,
+  sequence: true,
+  updatedAt: true,
+}).extend({
+  date: z.coerce.date(),
+  refundPolicy: refundPolicySchema.nullable().optional(),
+});
+export const updateEventSchema = insertEventSchema.omit({ id: true }).partial();
+
+// Admins can add a note to the email registrants get about a change
+const notificationMessage = z.string().trim().max(2000).optional();
+
+export const updateEventRequestSchema = updateEventSchema.extend({
+  notifyRegistrants: z.boolean().default(false),
+  notificationMessage,
+});
+export const cancelEventRequestSchema = z.object({
+  notificationMessage,
+});
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the format yyyy-MM-dd");
+
+export const insertEventSeriesSchema = createInsertSchema(eventSeries).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  refundPolicy: refundPolicySchema.nullable().optional(),
+  recurrence: recurrenceRuleSchema,
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use the format HH:mm"),
+  startDate: localDate,
+  endDate: localDate.nullable().optional(),
+  exceptions: z.array(localDate).optional(),
+});
+export const updateEventSeriesSchema = insertEventSeriesSchema.partial();
 export const insertRegistrationSchema = createInsertSchema(registrations);
+export const insertWaiverSchema = createInsertSchema(waivers).pick({
+  title: true,
+  body: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required"),
+  body: z.string().trim().min(1, "Waiver text is required"),
+});
+// Collected from the member at registration. The waiver fields are left out
+// only while no waiver has been published.
+export const participantInfoSchema = z.object({
+  waiverId: z.number().int().optional(),
+  signature: z.string().trim().min(2, "Type your full name to sign").max(200).optional(),
+  emergencyContactName: z.string().trim().min(1, "Emergency contact is required").max(200),
+  emergencyContactPhone: z.string().trim().min(7, "Enter a phone number for your emergency contact").max(50),
+  medicalNotes: z.string().trim().max(2000).optional(),
+});
+// What a signed-in member sends; the user comes from the session. Participant
+// info may be left out when resuming payment for an existing registration.
+export const registrationRequestSchema = insertRegistrationSchema.pick({ eventId: true }).extend({
+  participant: participantInfoSchema.optional(),
+});
+export const waitlistClaimSchema = z.object({
+  participant: participantInfoSchema,
+});
+export const registrationTransferSchema = z.object({
+  recipient: z.string().trim().min(1, "Enter the username or email of the member"),
+});
+// Check-ins recorded on a coordinator's phone, possibly while offline
+export const checkInBatchSchema = z.object({
+  checkIns: z.array(z.object({
+    registrationId: z.number().int(),
+    checkedInAt: z.coerce.date(),
+    // Present when the attendee's QR code was scanned rather than picked by name
+    ticket: z.string().optional(),
+  })).max(500),
+});
 export const insertWaitlistSchema = createInsertSchema(waitlist).pick({
   email: true,
 });
 
-export const insertProductSchema = createInsertSchema(products);
+export const insertProductSchema = createInsertSchema(products).omit({ reserved: true });
 export const insertOrderSchema = createInsertSchema(orders);
 export const insertOrderItemSchema = createInsertSchema(orderItems);
 
@@ -122,8 +433,20 @@ export const insertShippingRateSchema = createInsertSchema(shippingRates);
 
 // Type definitions
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertUserCredential = z.infer<typeof insertUserCredentialSchema>;
+export type InsertPrivacyAuditLog = z.infer<typeof insertPrivacyAuditLogSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+export type ExperienceLevel = typeof EXPERIENCE_LEVELS[number];
 export type InsertEvent = z.infer<typeof insertEventSchema>;
+export type UpdateEvent = z.infer<typeof updateEventSchema>;
+export type InsertEventSeries = z.infer<typeof insertEventSeriesSchema>;
+export type UpdateEventSeries = z.infer<typeof updateEventSeriesSchema>;
 export type InsertRegistration = z.infer<typeof insertRegistrationSchema>;
+export type RegistrationRequest = z.infer<typeof registrationRequestSchema>;
+export type RegistrationTransfer = z.infer<typeof registrationTransferSchema>;
+export type CheckInBatch = z.infer<typeof checkInBatchSchema>;
+export type InsertWaiver = z.infer<typeof insertWaiverSchema>;
+export type ParticipantInfo = z.infer<typeof participantInfoSchema>;
 export type InsertWaitlist = z.infer<typeof insertWaitlistSchema>;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
@@ -139,12 +462,31 @@ export type InsertShippingRate = z.infer<typeof insertShippingRateSchema>;
 
 
 export type User = typeof users.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type UserCredential = typeof userCredentials.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type AppSetting = typeof appSettings.$inferSelect;
+export type ErasureRequest = typeof erasureRequests.$inferSelect;
+export type PrivacyAuditLogEntry = typeof privacyAuditLog.$inferSelect;
 export type Event = typeof events.$inferSelect;
+export type EventSeries = typeof eventSeries.$inferSelect;
 export type Registration = typeof registrations.$inferSelect;
 export type Waitlist = typeof waitlist.$inferSelect;
+export type EventWaitlistEntry = typeof eventWaitlistEntries.$inferSelect;
+export type Waiver = typeof waivers.$inferSelect;
+export type WaiverAcceptance = typeof waiverAcceptances.$inferSelect;
+export type RegistrationEmergencyInfo = typeof registrationEmergencyInfo.$inferSelect;
 export type Product = typeof products.$inferSelect;
 export type Order = typeof orders.$inferSelect;
 export type OrderItem = typeof orderItems.$inferSelect;
+export type DiscountCode = typeof discountCodes.$inferSelect;
+export type InventoryMovement = typeof inventoryMovements.$inferSelect;
+
+export const securityPolicySchema = z.object({
+  requireAdminTwoFactor: z.boolean(),
+});
+
+export type SecurityPolicy = z.infer<typeof securityPolicySchema>;
 
 // Add shipping address schema
 export const shippingAddressSchema = z.object({
@@ -161,6 +503,38 @@ export const shippingAddressSchema = z.object({
 
 export type ShippingAddress = z.infer<typeof shippingAddressSchema>;
 
+// What checkout sends. Prices are looked up and shipping is re-quoted on the
+// server; only product ids, quantities and the chosen service are trusted.
+// unitPrice is the price the cart showed, used to catch carts that went stale.
+export const createOrderRequestSchema = z.object({
+  items: z.array(z.object({
+    productId: z.number().int(),
+    quantity: z.number().int().min(1).max(99),
+    unitPrice: z.string().optional(),
+  })).min(1, "Your cart is empty").max(50),
+  shippingAddress: shippingAddressSchema,
+  shippingRate: z.object({
+    carrier: z.string().min(1),
+    service: z.string().min(1),
+  }),
+  discountCode: z.string().trim().max(40).optional(),
+});
+
+export type CreateOrderRequest = z.infer<typeof createOrderRequestSchema>;
+
+export const stockAdjustmentSchema = z.object({
+  stock: z.number().int().min(0),
+  note: z.string().trim().min(1, "Say why the stock changed").max(500),
+});
+
+export const orderReturnSchema = z.object({
+  items: z.array(z.object({
+    productId: z.number().int(),
+    quantity: z.number().int().min(1),
+  })).min(1),
+  note: z.string().trim().max(500).optional(),
+});
+
 
 // Add new tables for AI chat functionality
 export const modelConfigs = pgTable("model_configs", {
@@ -0,0 +1,36 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { toZonedDateString, toZonedTimeString, zonedTimeToUtc } from "./timezone";
+
+describe("zonedTimeToUtc", () => {
+  it("applies daylight time in summer and standard time in winter", () => {
+    assert.equal(zonedTimeToUtc("2024-06-01", "06:30").toISOString(), "2024-06-01T13:30:00.000Z");
+    assert.equal(zonedTimeToUtc("2024-01-13", "06:30").toISOString(), "2024-01-13T14:30:00.000Z");
+  });
+
+  it("handles the days the clocks change", () => {
+    assert.equal(zonedTimeToUtc("2024-03-10", "08:00").toISOString(), "2024-03-10T15:00:00.000Z");
+    assert.equal(zonedTimeToUtc("2024-11-03", "08:00").toISOString(), "2024-11-03T16:00:00.000Z");
+  });
+
+  it("accepts another time zone", () => {
+    assert.equal(zonedTimeToUtc("2024-06-01", "06:30", "America/New_York").toISOString(), "2024-06-01T10:30:00.000Z");
+  });
+});
+
+describe("toZonedDateString and toZonedTimeString", () => {
+  it("give the Pacific calendar date and wall-clock time", () => {
+    // Late evening in Napa is already the next day in UTC
+    const instant = new Date("2024-07-05T04:15:00Z");
+
+    assert.equal(toZonedDateString(instant), "2024-07-04");
+    assert.equal(toZonedTimeString(instant), "21:15");
+  });
+
+  it("round-trip with zonedTimeToUtc", () => {
+    const instant = zonedTimeToUtc("2024-12-31", "23:45");
+
+    assert.equal(toZonedDateString(instant), "2024-12-31");
+    assert.equal(toZonedTimeString(instant), "23:45");
+  });
+});
@@ -0,0 +1,49 @@
+// All of our events happen around Napa, so schedules are expressed in
+// Pacific time regardless of where the server or the browser runs.
+export const EVENT_TIME_ZONE = "America/Los_Angeles";
+
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find((part) => part.type === type)!.value, 10);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute") };
+}
+
+// Milliseconds to add to UTC to get local wall-clock time at that instant
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  return wallClock - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+// Converts a local calendar date ("2024-06-01") and time ("06:30") in the
+// event time zone to the matching instant.
+export function zonedTimeToUtc(date: string, time: string, timeZone = EVENT_TIME_ZONE): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset depends on the instant, so check it again across DST changes
+  const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const adjusted = getTimeZoneOffset(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - adjusted);
+}
+
+// The calendar date ("2024-06-01") of an instant in the event time zone
+export function toZonedDateString(date: Date, timeZone = EVENT_TIME_ZONE): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return [year, String(month).padStart(2, "0"), String(day).padStart(2, "0")].join("-");
+}
+
+// The wall-clock time ("06:30") of an instant in the event time zone
+export function toZonedTimeString(date: Date, timeZone = EVENT_TIME_ZONE): string {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}